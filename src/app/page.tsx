@@ -1,14 +1,18 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect } from 'react';
 import { ViewMode } from '@/types';
+import { useFloorplanStore } from '@/stores/floorplan-store';
 import FloorplanEditor from '@/components/2d/FloorplanEditor';
 import ThreeViewer from '@/components/3d/ThreeViewer';
 import Sidebar from '@/components/ui/Sidebar';
 import Toolbar from '@/components/ui/Toolbar';
 
 export default function Home() {
-  const [viewMode, setViewMode] = useState<ViewMode>(ViewMode.FLOORPLAN_2D);
+  const viewMode = useFloorplanStore(state => state.viewMode);
+
+  // Saved settings are read after mount so the server render matches
+  useEffect(() => useFloorplanStore.getState().restoreUserConfig(), []);
 
   return (
     <div className="flex h-screen bg-gray-100">
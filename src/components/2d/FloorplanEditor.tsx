@@ -1,28 +1,60 @@
 'use client';
 
-import React, { useRef, useEffect, useCallback, useState } from 'react';
+import React, { useRef, useEffect, useCallback, useMemo, useState } from 'react';
 import { useFloorplanStore } from '@/stores/floorplan-store';
-import { Point2D, Corner, Wall, EditorMode, ViewMode } from '@/types';
-import { distance, snapToGrid } from '@/lib/utils/math';
+import { Point2D, Corner, Wall, EditorMode, ViewMode, OpeningType, Selection, Item3D } from '@/types';
+import { distance, MathUtils } from '@/lib/utils/math';
+import { getItemFootprint, getItemHandles, getItemSize, getRotationToward, resizeItemFromCorner } from '@/lib/utils/items';
+import { findRoomAt as findRoomAtPoint, getRoomOutline, measureRoom, ROOM_TYPES } from '@/lib/utils/rooms';
+import { CATALOG_DRAG_TYPE, CatalogEntry, createCatalogItem, getCatalogEntry } from '@/lib/catalog';
+import { SnapAnchor, SnapResult, snapPoint } from '@/lib/utils/snapping';
+import { DEFAULT_OPENINGS, getOpeningSpans, getWallOpenings } from '@/lib/utils/openings';
+import { formatArea, formatCoordinate, formatLength, parseLength } from '@/lib/utils/units';
+import {
+  CanvasView,
+  CORNER_COLOR,
+  CORNER_COLOR_HOVER,
+  CORNER_RADIUS,
+  CORNER_RADIUS_HOVER,
+  DELETE_COLOR,
+  WALL_COLOR,
+  WALL_COLOR_HOVER,
+  WALL_COLOR_SELECTED,
+  WALL_WIDTH_HOVER,
+  SELECTION_COLOR,
+  SELECTION_FILL,
+  CONFLICT_COLOR,
+  CONFLICT_FILL,
+  drawClearanceZones,
+  drawItem,
+  drawItemHandles,
+  drawMarquee,
+  drawPolygon,
+  drawRoomLabel,
+  drawCorner as renderCorner,
+  drawGrid as renderGrid,
+  drawLabel,
+  drawSnapGlyph,
+  drawSnapGuides,
+  drawWall as renderWall,
+  getWallLabelPosition,
+  measureLabel,
+} from '@/lib/render/floorplan-canvas';
 import { useViewport } from '@/lib/hooks/useViewport';
 import { useMouseState } from '@/lib/hooks/useMouseState';
 // import { useDrawingState } from '@/lib/hooks/useDrawingState';
 import { useHitTest } from '@/lib/hooks/useHitTest';
+import { useSpatialIndex } from '@/lib/hooks/useSpatialIndex';
+import { attachToNearestWall } from '@/lib/utils/wall-items';
+import { useConflicts } from '@/lib/hooks/useConflicts';
+import { getConflictedItemIds } from '@/lib/utils/collisions';
+import { rectAround } from '@/lib/utils/spatial-index';
 
 // Configuration constants (based on blueprint3d)
-const GRID_SPACING = 20; // pixels
-const GRID_COLOR = '#d0d0d0'; // Made darker for better visibility
-const GRID_WIDTH = 1;
-const WALL_COLOR = '#dddddd';
-const WALL_COLOR_HOVER = '#008cba';
-const WALL_WIDTH = 5;
-const WALL_WIDTH_HOVER = 7;
-const CORNER_COLOR = '#cccccc';
-const CORNER_COLOR_HOVER = '#008cba';
-const CORNER_RADIUS = 0;
-const CORNER_RADIUS_HOVER = 7;
-const DELETE_COLOR = '#ff0000';
-const SNAP_TOLERANCE = 25; // cm
+const MARQUEE_MIN_DRAG = 4; // pixels; less is a click
+const ITEM_HANDLE_TOLERANCE = 8; // pixels
+const ROTATE_HANDLE_OFFSET = 25; // pixels behind the item
+const MIN_ITEM_SIZE = 5; // cm
 const DEFAULT_ZOOM = 1.0;
 const MIN_ZOOM = 0.2;
 const MAX_ZOOM = 8.0;
@@ -35,6 +67,19 @@ interface FloorplannerViewport {
   pixelsPerCm: number;
 }
 
+interface Marquee {
+  start: Point2D;
+  end: Point2D;
+  additive: boolean; // Shift held: add to the selection instead of replacing it
+}
+
+// A handle of the selected item: its rotation handle or a resize handle on
+// the footprint corner with that index
+type ItemHandle = 'rotate' | number;
+
+const countSelected = (selection: Selection) =>
+  selection.corners.length + selection.walls.length + selection.rooms.length + selection.items.length;
+
 interface FloorplanEditorProps {
   className?: string;
 }
@@ -43,70 +88,33 @@ export default function FloorplanEditor({ className }: FloorplanEditorProps) {
   // Viewport state and handlers
   const { viewport, setViewport, handleZoom, handlePan } = useViewport();
 
-  // Helper: format cm to feet/inches string
-  function formatFeetInches(cm: number) {
-    const inchesTotal = cm / 2.54;
-    const feet = Math.floor(inchesTotal / 12);
-    const inches = Math.round(inchesTotal % 12);
-    return `${feet}'${inches}\"`;
-  }
-
-  // Helper: parse feet/inches string to cm
-  function parseFeetInches(input: string): number | null {
-    // Accepts 12'6", 12' 6", 12.5', 150" etc.
-    const ftIn = input.match(/^(\d+)'\s*(\d+)?"?$/); // 12'6"
-    if (ftIn) {
-      const feet = parseInt(ftIn[1], 10);
-      const inches = ftIn[2] ? parseInt(ftIn[2], 10) : 0;
-      return (feet * 12 + inches) * 2.54;
-    }
-    const ftDec = input.match(/^(\d+(?:\.\d+)?)'/); // 12.5'
-    if (ftDec) {
-      return parseFloat(ftDec[1]) * 12 * 2.54;
-    }
-    const inches = input.match(/^(\d+(?:\.\d+)?)"$/); // 150"
-    if (inches) {
-      return parseFloat(inches[1]) * 2.54;
-    }
-    return null;
-  }
-
-  // Drawing function for grid
-  const drawGrid = useCallback((ctx: CanvasRenderingContext2D, width: number, height: number) => {
-    // Adjust grid spacing based on zoom level for better visibility
-    const scaledGridSpacing = GRID_SPACING * viewport.zoom;
-    const offsetX = (-viewport.originX) % scaledGridSpacing;
-    const offsetY = (-viewport.originY) % scaledGridSpacing;
-    ctx.strokeStyle = GRID_COLOR;
-    ctx.lineWidth = GRID_WIDTH;
-    // Only draw grid if spacing is reasonable (not too dense)
-    if (scaledGridSpacing > 5) {
-      // Vertical lines
-      for (let x = offsetX; x <= width; x += scaledGridSpacing) {
-        ctx.beginPath();
-        ctx.moveTo(x, 0);
-        ctx.lineTo(x, height);
-        ctx.stroke();
-      }
-      // Horizontal lines
-      for (let y = offsetY; y <= height; y += scaledGridSpacing) {
-        ctx.beginPath();
-        ctx.moveTo(0, y);
-        ctx.lineTo(width, y);
-        ctx.stroke();
-      }
-    }
-  }, [viewport.originX, viewport.originY, viewport.zoom]);
   // Track which wall is being dragged in MOVE mode
   const [draggedWallId, setDraggedWallId] = useState<string | null>(null);
   // Track which wall is selected for editing/highlight
-  const [selectedWallId, setSelectedWallId] = useState<string | null>(null);
   // State for editing wall label
   const [editingWallId, setEditingWallId] = useState<string | null>(null);
   const [editValue, setEditValue] = useState('');
+  const [editLabel, setEditLabel] = useState(''); // the label the edit started from
+  const cancelEditRef = useRef(false);
   const [editPos, setEditPos] = useState<{x: number, y: number} | null>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
+  // Whether a drag is in progress as a single undo step
+  const dragTransactionRef = useRef(false);
+  // Where a wall drag started, so each move snaps the wall's absolute position
+  const wallDragRef = useRef<{ origin: Point2D; start: Point2D; end: Point2D } | null>(null);
+  // The snap currently applied to the cursor, for its guides and glyph
+  const [activeSnap, setActiveSnap] = useState<SnapResult | null>(null);
+  // Box selection in progress
+  const [marquee, setMarquee] = useState<Marquee | null>(null);
+  // Where a drag of the whole selection started, and the offset applied so far
+  const groupDragRef = useRef<{ origin: Point2D; applied: Point2D; item?: { id: string; start: Point2D } } | null>(null);
+  // Whether the view is being panned with the middle button
+  const panningRef = useRef(false);
+  // The item handle being dragged
+  const itemHandleRef = useRef<{ itemId: string; handle: ItemHandle } | null>(null);
+  // Plan position under the mouse, for the coordinate readout
+  const [cursorPosition, setCursorPosition] = useState<Point2D | null>(null);
   
 
   // Use selectors for reactivity
@@ -117,13 +125,44 @@ export default function FloorplanEditor({ className }: FloorplanEditorProps) {
   const setActiveCorner = useFloorplanStore(state => state.setActiveCorner);
   const setActiveWall = useFloorplanStore(state => state.setActiveWall);
   const addCorner = useFloorplanStore(state => state.addCorner);
-  const addWall = useFloorplanStore(state => state.addWall);
+  const addDrawnWall = useFloorplanStore(state => state.addDrawnWall);
+  const splitWall = useFloorplanStore(state => state.splitWall);
   const removeCorner = useFloorplanStore(state => state.removeCorner);
   const removeWall = useFloorplanStore(state => state.removeWall);
   const moveCorner = useFloorplanStore(state => state.moveCorner);
+  const mergeCorners = useFloorplanStore(state => state.mergeCorners);
+  const moveWall = useFloorplanStore(state => state.moveWall);
+  const setWallLength = useFloorplanStore(state => state.setWallLength);
+  const addOpening = useFloorplanStore(state => state.addOpening);
+  const removeOpening = useFloorplanStore(state => state.removeOpening);
+  const beginTransaction = useFloorplanStore(state => state.beginTransaction);
+  const commitTransaction = useFloorplanStore(state => state.commitTransaction);
   const floorplan = useFloorplanStore(state => state.floorplan);
+  const snapSettings = useFloorplanStore(state => state.snapSettings);
+  const config = useFloorplanStore(state => state.config);
+  const selection = useFloorplanStore(state => state.selection);
+  const setSelection = useFloorplanStore(state => state.setSelection);
+  const addToSelection = useFloorplanStore(state => state.addToSelection);
+  const clearSelection = useFloorplanStore(state => state.clearSelection);
+  const moveSelection = useFloorplanStore(state => state.moveSelection);
+  const addItem = useFloorplanStore(state => state.addItem);
+  const moveItem = useFloorplanStore(state => state.moveItem);
+  const attachItem = useFloorplanStore(state => state.attachItem);
+  const rotateItem = useFloorplanStore(state => state.rotateItem);
+  const scaleItem = useFloorplanStore(state => state.scaleItem);
+  const placingEntryId = useFloorplanStore(state => state.placingEntryId);
   const corners = Object.values(floorplan.corners);
   const walls = Object.values(floorplan.walls);
+  const spatialIndex = useSpatialIndex();
+  const conflicts = useConflicts();
+  // Room measurements change only with the walls and corners around them
+  const roomMeasurements = useMemo(
+    () => Object.values(floorplan.rooms).map(room => ({
+      room,
+      ...measureRoom(room, { corners: floorplan.corners, walls: floorplan.walls }),
+    })),
+    [floorplan.rooms, floorplan.corners, floorplan.walls]
+  );
 
 
 
@@ -143,21 +182,65 @@ export default function FloorplanEditor({ className }: FloorplanEditorProps) {
     targetY: 0,
     firstCorner: null
   });
-  // Patch updateTarget to work with new drawingState
-  const updateTarget = useCallback(() => {
-    let targetX = mouseState.worldX;
-    let targetY = mouseState.worldY;
-    if (editorMode === EditorMode.DRAW && drawingState.lastNode) {
-      if (Math.abs(mouseState.worldX - drawingState.lastNode.x) < SNAP_TOLERANCE) {
-        targetX = drawingState.lastNode.x;
-      }
-      if (Math.abs(mouseState.worldY - drawingState.lastNode.y) < SNAP_TOLERANCE) {
-        targetY = drawingState.lastNode.y;
-      }
+  // Snap a point to walls, the grid, angles from the anchors and alignment
+  // with other corners; holding Shift turns snapping off
+  const snap = useCallback((
+    point: Point2D,
+    free: boolean,
+    anchors: SnapAnchor[] = [],
+    excludeCornerIds?: Set<string>,
+    perpendicularFrom?: Point2D | null
+  ): SnapResult => {
+    if (free) return { point, guides: [] };
+    // Walls on screen, for extensions as well as snaps under the cursor
+    const canvas = canvasRef.current;
+    const near = rectAround(point, config.snapTolerance);
+    const visible = canvas && {
+      minX: Math.min(near.minX, viewport.originX * viewport.cmPerPixel),
+      minY: Math.min(near.minY, viewport.originY * viewport.cmPerPixel),
+      maxX: Math.max(near.maxX, (viewport.originX + canvas.width) * viewport.cmPerPixel),
+      maxY: Math.max(near.maxY, (viewport.originY + canvas.height) * viewport.cmPerPixel),
+    };
+    return snapPoint(point, {
+      corners: spatialIndex.cornersAlignedWith(point, config.snapTolerance),
+      walls: spatialIndex.wallsInRect(visible ?? near),
+      excludeCornerIds,
+      anchors,
+      perpendicularFrom,
+      gridSize: config.gridSize,
+      tolerance: config.snapTolerance,
+    }, snapSettings);
+  }, [snapSettings, viewport, spatialIndex, config.gridSize, config.snapTolerance]);
+
+  // Anchors for angle snapping a corner joined by walls to its neighbours,
+  // measured from the axes
+  const getNeighbourAnchors = useCallback((cornerId: string, excludeCornerIds: Set<string>): SnapAnchor[] => {
+    const latest = useFloorplanStore.getState().floorplan;
+    const corner = latest.corners[cornerId];
+    if (!corner) return [];
+    return corner.adjacentWalls.flatMap(wallId => {
+      const wall = latest.walls[wallId];
+      const otherId = wall && (wall.startCorner === cornerId ? wall.endCorner : wall.startCorner);
+      const other = otherId && !excludeCornerIds.has(otherId) ? latest.corners[otherId] : undefined;
+      return other ? [{ point: other, referenceAngle: 0 }] : [];
+    });
+  }, []);
+
+  // Update the drawing target, snapping angles relative to the previous wall
+  const updateTarget = useCallback((world: Point2D, free: boolean) => {
+    const anchors: SnapAnchor[] = [];
+    const latest = useFloorplanStore.getState().floorplan;
+    const lastNode = drawingState.lastNode && latest.corners[drawingState.lastNode.id];
+    if (lastNode) {
+      const previousWall = latest.walls[lastNode.adjacentWalls[lastNode.adjacentWalls.length - 1]];
+      const previousId = previousWall && (previousWall.startCorner === lastNode.id ? previousWall.endCorner : previousWall.startCorner);
+      const previous = previousId ? latest.corners[previousId] : undefined;
+      anchors.push({ point: lastNode, referenceAngle: previous ? MathUtils.angle(previous, lastNode) : 0 });
     }
-    const gridSnap = snapToGrid({ x: targetX, y: targetY }, GRID_SPACING * viewport.cmPerPixel);
-    setDrawingState(prev => ({ ...prev, targetX: gridSnap.x, targetY: gridSnap.y }));
-  }, [mouseState.worldX, mouseState.worldY, editorMode, drawingState.lastNode, viewport.cmPerPixel]);
+    const snapped = snap(world, free, anchors, undefined, lastNode);
+    setActiveSnap(snapped);
+    setDrawingState(prev => ({ ...prev, targetX: snapped.point.x, targetY: snapped.point.y }));
+  }, [drawingState.lastNode, snap]);
 
   // Convert canvas coordinates to world coordinates
   const canvasToWorld = useCallback((canvasX: number, canvasY: number) => {
@@ -173,17 +256,179 @@ export default function FloorplanEditor({ className }: FloorplanEditorProps) {
     return { x: canvasX, y: canvasY };
   }, [viewport]);
 
+  // The same mapping in the form the shared canvas renderer takes
+  const canvasView: CanvasView = useMemo(() => ({
+    offsetX: viewport.originX * viewport.cmPerPixel,
+    offsetY: viewport.originY * viewport.cmPerPixel,
+    pixelsPerCm: viewport.pixelsPerCm,
+    pixelRatio: 1,
+  }), [viewport]);
+
+  // Drawing function for grid
+  const drawGrid = useCallback((ctx: CanvasRenderingContext2D, width: number, height: number) => {
+    renderGrid(ctx, canvasView, width, height, config.gridSize);
+  }, [canvasView, config.gridSize]);
+
 
   // Hit-testing hooks for corners and walls
   // For MOVE mode, use a larger tolerance for wall hit-test to match visible thickness (in px, not cm)
   const wallHitTolerance = editorMode === EditorMode.MOVE ? Math.max(16, 2 * WALL_WIDTH_HOVER) : 15;
-  const { findCornerAt, findWallAt: _findWallAt } = useHitTest(corners, walls, viewport.cmPerPixel);
+  const { findCornerAt, findWallAt: _findWallAt, findItemAt } = useHitTest(spatialIndex, viewport.cmPerPixel);
   // Custom wall hit-test for MOVE mode
   const findWallAt = useCallback((x: number, y: number) => {
     return _findWallAt(x, y, wallHitTolerance);
   }, [_findWallAt, wallHitTolerance]);
 
-  // ...existing code...
+  // Find the door or window under a point on a wall
+  const findOpeningAt = useCallback((wall: Wall, point: Point2D) => {
+    const start = floorplan.corners[wall.startCorner];
+    const end = floorplan.corners[wall.endCorner];
+    if (!start || !end) return null;
+    const length = distance(start, end);
+    const along = MathUtils.projectOntoSegment(point, start, end).t * length;
+    const span = getOpeningSpans(getWallOpenings(wall.id, floorplan.openings), length)
+      .find(s => along >= s.start && along <= s.end);
+    return span?.opening ?? null;
+  }, [floorplan.corners, floorplan.openings]);
+
+  // Find the room whose floor is under a point; the innermost if nested
+  const findRoomAt = useCallback(
+    (point: Point2D) => findRoomAtPoint(useFloorplanStore.getState().floorplan, point),
+    []
+  );
+
+  // Select what a finished box encloses; a box too small to be a drag is a
+  // click, which selects the room under it
+  const finishMarquee = useCallback(({ start, end, additive }: Marquee) => {
+    const select = additive ? addToSelection : setSelection;
+    if (distance(start, end) / viewport.cmPerPixel < MARQUEE_MIN_DRAG) {
+      const room = findRoomAt(start);
+      if (room) select({ rooms: [room.id] });
+      else if (!additive) clearSelection();
+      return;
+    }
+
+    const box = {
+      minX: Math.min(start.x, end.x),
+      minY: Math.min(start.y, end.y),
+      maxX: Math.max(start.x, end.x),
+      maxY: Math.max(start.y, end.y),
+    };
+    const inside = (point: Point2D) =>
+      point.x >= box.minX && point.x <= box.maxX && point.y >= box.minY && point.y <= box.maxY;
+    const latest = useFloorplanStore.getState().floorplan;
+    select({
+      corners: spatialIndex.cornersInRect(box).map(corner => corner.id),
+      walls: spatialIndex.wallsInRect(box)
+        .filter(segment => inside(segment.start) && inside(segment.end))
+        .map(segment => segment.wall.id),
+      rooms: Object.values(latest.rooms)
+        .filter(room => room.corners.every(id => latest.corners[id] && inside(latest.corners[id])))
+        .map(room => room.id),
+      items: spatialIndex.itemsInRect(box)
+        .filter(footprint => footprint.outline.every(inside))
+        .map(footprint => footprint.item.id),
+    });
+  }, [addToSelection, setSelection, clearSelection, findRoomAt, spatialIndex, viewport.cmPerPixel]);
+
+  // Place a door or window on a wall, centred on the clicked point. A door is
+  // hinged on the jamb nearer the click and swings to the side clicked on.
+  const placeOpening = useCallback((wall: Wall, point: Point2D, type: OpeningType) => {
+    const start = floorplan.corners[wall.startCorner];
+    const end = floorplan.corners[wall.endCorner];
+    if (!start || !end) return;
+    const length = distance(start, end);
+    const defaults = DEFAULT_OPENINGS[type];
+    const width = Math.min(defaults.width, length);
+    const along = MathUtils.projectOntoSegment(point, start, end).t * length;
+    const side = (end.x - start.x) * (point.y - start.y) - (end.y - start.y) * (point.x - start.x);
+    addOpening({
+      ...defaults,
+      wallId: wall.id,
+      type,
+      width,
+      offset: Math.max(0, Math.min(length - width, along - width / 2)),
+      hinge: along < length / 2 ? 'start' : 'end',
+      swing: side >= 0 ? 'front' : 'back',
+    });
+  }, [floorplan.corners, addOpening]);
+
+  // Find the corner to draw to at a point: an existing corner, or a new one
+  // splitting the wall under the point so the walls join in a T
+  const findOrSplitCornerAt = useCallback((x: number, y: number): Corner | null => {
+    const corner = findCornerAt(x, y);
+    if (corner) return corner;
+    const wall = findWallAt(x, y);
+    if (!wall) return null;
+    const cornerId = splitWall(wall.id, { x, y });
+    return cornerId ? useFloorplanStore.getState().floorplan.corners[cornerId] ?? null : null;
+  }, [findCornerAt, findWallAt, splitWall]);
+
+  // The item whose handles are shown: the selection, when it is one item
+  const getHandleItem = useCallback(() => {
+    const latest = useFloorplanStore.getState();
+    if (latest.editorMode !== EditorMode.MOVE) return null;
+    if (latest.selection.items.length !== 1 || countSelected(latest.selection) !== 1) return null;
+    return latest.floorplan.items[latest.selection.items[0]] ?? null;
+  }, []);
+
+  // Find the handle of the selected item under a point
+  const findItemHandleAt = useCallback((point: Point2D): { itemId: string; handle: ItemHandle } | null => {
+    const item = getHandleItem();
+    if (!item) return null;
+    const tolerance = ITEM_HANDLE_TOLERANCE * viewport.cmPerPixel;
+    const handles = getItemHandles(item, ROTATE_HANDLE_OFFSET * viewport.cmPerPixel);
+    if (distance(point, handles.rotate) < tolerance) return { itemId: item.id, handle: 'rotate' };
+    if (!item.metadata.resizable) return null;
+    const corner = handles.resize.findIndex(handle => distance(point, handle) < tolerance);
+    return corner >= 0 ? { itemId: item.id, handle: corner } : null;
+  }, [getHandleItem, viewport.cmPerPixel]);
+
+  // Where an item placed at a point goes: on the grid unless Shift is held
+  const getPlacementPoint = useCallback((point: Point2D, free: boolean) => (
+    snapSettings.grid && !free ? MathUtils.snapToGrid(point, config.gridSize) : point
+  ), [snapSettings.grid, config.gridSize]);
+
+  // The walls an item centred at a point could be put against: those whose
+  // faces can come within the snap tolerance of its back
+  const getWallsNearItem = useCallback((item: Pick<Item3D, 'dimensions' | 'scale'>, point: Point2D) => {
+    const reach = config.snapTolerance + getItemSize(item).depth + spatialIndex.maxWallThickness;
+    return spatialIndex.wallsInRect(rectAround(point, reach)).map(segment => segment.wall);
+  }, [spatialIndex, config.snapTolerance]);
+
+  // An item from the catalog placed at a point, back against a wall if one
+  // is near enough. Shift places it freely, off the grid and any wall.
+  const getPlacedItem = useCallback((entry: CatalogEntry, point: Point2D, free: boolean) => {
+    const floorplan = useFloorplanStore.getState().floorplan;
+    const item = createCatalogItem(entry, getPlacementPoint(point, free), floorplan);
+    const attached = snapSettings.walls && !free &&
+      attachToNearestWall(item, point, floorplan, config.snapTolerance, getWallsNearItem(item, point));
+    return attached || item;
+  }, [getPlacementPoint, getWallsNearItem, snapSettings.walls, config.snapTolerance]);
+
+  // Add an item from the catalog at a point and select it
+  const placeItem = useCallback((entryId: string, point: Point2D, free: boolean) => {
+    const entry = getCatalogEntry(entryId);
+    if (!entry) return;
+    const id = addItem(getPlacedItem(entry, point, free));
+    setSelection({ items: [id] });
+  }, [addItem, setSelection, getPlacedItem]);
+
+  // Accept catalog entries dragged onto the canvas
+  const handleDragOver = useCallback((event: React.DragEvent<HTMLCanvasElement>) => {
+    if (!event.dataTransfer.types.includes(CATALOG_DRAG_TYPE)) return;
+    event.preventDefault();
+    event.dataTransfer.dropEffect = 'copy';
+  }, []);
+
+  const handleDrop = useCallback((event: React.DragEvent<HTMLCanvasElement>) => {
+    const entryId = event.dataTransfer.getData(CATALOG_DRAG_TYPE);
+    if (!entryId || !canvasRef.current) return;
+    event.preventDefault();
+    const rect = canvasRef.current.getBoundingClientRect();
+    const world = canvasToWorld(event.clientX - rect.left, event.clientY - rect.top);
+    placeItem(entryId, world, event.shiftKey);
+  }, [canvasToWorld, placeItem]);
 
   // Handle mouse down
   const handleMouseDown = useCallback((event: React.MouseEvent<HTMLCanvasElement>) => {
@@ -194,29 +439,76 @@ export default function FloorplanEditor({ className }: FloorplanEditorProps) {
     const canvasY = event.clientY - rect.top;
     const world = canvasToWorld(canvasX, canvasY);
 
-    // Always allow wall selection by click (even outside MOVE mode)
     const clickedCorner = findCornerAt(world.x, world.y);
     const clickedWall = !clickedCorner ? findWallAt(world.x, world.y) : null;
-    if (clickedWall) {
-      setSelectedWallId(clickedWall.id);
-    } else {
-      setSelectedWallId(null);
+    const clickedItem = !clickedCorner && !clickedWall ? findItemAt(world.x, world.y) : null;
+
+    // Outside MOVE mode a click still highlights the wall under it
+    if (editorMode !== EditorMode.MOVE) {
+      setSelection(clickedWall ? { walls: [clickedWall.id] } : {});
     }
 
-    // In MOVE mode, set active wall if clicking on a wall
-    if (editorMode === EditorMode.MOVE) {
-      if (clickedWall) {
+    const itemHandle = editorMode === EditorMode.MOVE && event.button === 0 ? findItemHandleAt(world) : null;
+
+    if (event.button === 1) {
+      // A middle-button drag pans in any mode
+      event.preventDefault();
+      panningRef.current = true;
+    } else if (itemHandle) {
+      // Rotate or resize the selected item, as one undo step
+      itemHandleRef.current = itemHandle;
+      beginTransaction();
+      dragTransactionRef.current = true;
+      setActiveWall(null);
+      setActiveCorner(null);
+    } else if (editorMode === EditorMode.MOVE) {
+      const hit: { kind: keyof Selection; id: string } | null = clickedCorner
+        ? { kind: 'corners', id: clickedCorner.id }
+        : clickedWall
+          ? { kind: 'walls', id: clickedWall.id }
+          : clickedItem
+            ? { kind: 'items', id: clickedItem.id }
+            : null;
+
+      // Shift-click adds to the selection; a plain click on something not yet
+      // selected selects just that
+      if (hit && event.shiftKey) addToSelection({ [hit.kind]: [hit.id] });
+      else if (hit && !useFloorplanStore.getState().selection[hit.kind].includes(hit.id)) setSelection({ [hit.kind]: [hit.id] });
+
+      // The whole drag counts as one undo step
+      if (hit) {
+        beginTransaction();
+        dragTransactionRef.current = true;
+      }
+      if (hit && (clickedItem || countSelected(useFloorplanStore.getState().selection) > 1)) {
+        // Drag everything selected together; a lone item can go against a wall
+        const latest = useFloorplanStore.getState();
+        const loneItem = countSelected(latest.selection) === 1 && latest.floorplan.items[latest.selection.items[0]];
+        groupDragRef.current = {
+          origin: world,
+          applied: { x: 0, y: 0 },
+          ...(loneItem && { item: { id: loneItem.id, start: { x: loneItem.position.x, y: loneItem.position.z } } }),
+        };
+        setActiveWall(null);
+        setActiveCorner(null);
+        setDraggedWallId(null);
+      } else if (clickedWall) {
         setActiveWall(clickedWall);
         setDraggedWallId(clickedWall.id);
         setActiveCorner(null);
+        const start = floorplan.corners[clickedWall.startCorner];
+        const end = floorplan.corners[clickedWall.endCorner];
+        wallDragRef.current = start && end ? { origin: world, start: { ...start }, end: { ...end } } : null;
       } else if (clickedCorner) {
         setActiveCorner(clickedCorner);
         setActiveWall(null);
         setDraggedWallId(null);
       } else {
+        // Dragging over empty space draws a selection box
         setActiveWall(null);
         setActiveCorner(null);
         setDraggedWallId(null);
+        setMarquee({ start: world, end: world, additive: event.shiftKey });
       }
     }
 
@@ -251,15 +543,27 @@ export default function FloorplanEditor({ className }: FloorplanEditorProps) {
 
     // Handle different editor modes
     if (editorMode === EditorMode.DELETE) {
+      const hoveredOpening = activeWall ? findOpeningAt(activeWall, world) : null;
       if (activeCorner) {
         removeCorner(activeCorner.id);
         setActiveCorner(null);
+      } else if (hoveredOpening) {
+        // Clicking a door or window removes just the opening
+        removeOpening(hoveredOpening.id);
       } else if (activeWall) {
         removeWall(activeWall.id);
         setActiveWall(null);
       }
     }
-  }, [canvasToWorld, editorMode, activeCorner, activeWall, removeCorner, removeWall, setActiveCorner, setActiveWall, drawingState.lastNode, findCornerAt, findWallAt]);
+
+    if ((editorMode === EditorMode.PLACE_DOOR || editorMode === EditorMode.PLACE_WINDOW) && clickedWall) {
+      placeOpening(clickedWall, world, editorMode === EditorMode.PLACE_DOOR ? OpeningType.DOOR : OpeningType.WINDOW);
+    }
+
+    if (editorMode === EditorMode.PLACE_ITEM && placingEntryId && event.button === 0) {
+      placeItem(placingEntryId, world, event.shiftKey);
+    }
+  }, [canvasToWorld, editorMode, activeCorner, activeWall, removeCorner, removeWall, removeOpening, setActiveCorner, setActiveWall, drawingState.lastNode, findCornerAt, findWallAt, findItemAt, findOpeningAt, placeOpening, beginTransaction, setSelection, addToSelection, placingEntryId, placeItem]);
 
   // Handle mouse move
   const handleMouseMove = useCallback((event: React.MouseEvent<HTMLCanvasElement>) => {
@@ -269,6 +573,7 @@ export default function FloorplanEditor({ className }: FloorplanEditorProps) {
     const canvasX = event.clientX - rect.left;
     const canvasY = event.clientY - rect.top;
     const world = canvasToWorld(canvasX, canvasY);
+    setCursorPosition(world);
 
     setMouseState(prev => {
       const newState = {
@@ -280,8 +585,9 @@ export default function FloorplanEditor({ className }: FloorplanEditorProps) {
         worldY: world.y
       };
 
-      // Handle panning
-      if (prev.isDown && !activeCorner && !activeWall) {
+      // Handle panning; in MOVE mode only the middle button pans, as a left
+      // drag over empty space selects
+      if (prev.isDown && (panningRef.current || (editorMode !== EditorMode.MOVE && !activeCorner && !activeWall))) {
         const deltaX = event.clientX - prev.lastX;
         const deltaY = event.clientY - prev.lastY;
         handlePan(deltaX, deltaY);
@@ -289,66 +595,87 @@ export default function FloorplanEditor({ className }: FloorplanEditorProps) {
         newState.lastY = event.clientY;
       }
 
-      // Handle corner/wall dragging in MOVE mode
-      if (editorMode === EditorMode.MOVE && prev.isDown) {
-        if (activeCorner) {
-          moveCorner(activeCorner.id, world.x, world.y);
-        } else if (draggedWallId) {
-          const wall = walls.find(w => w.id === draggedWallId);
-          if (wall) {
-            const deltaX = (event.clientX - prev.lastX) * viewport.cmPerPixel;
-            const deltaY = (event.clientY - prev.lastY) * viewport.cmPerPixel;
-            const startCorner = corners.find(c => c.id === wall.startCorner);
-            const endCorner = corners.find(c => c.id === wall.endCorner);
-            if (startCorner && endCorner) {
-              // Log the intended new positions for debugging
-              console.log('[WALL MOVE]', {
-                wallId: wall.id,
-                startCorner: {
-                  id: startCorner.id,
-                  from: { x: startCorner.x, y: startCorner.y },
-                  to: { x: startCorner.x + deltaX, y: startCorner.y + deltaY }
-                },
-                endCorner: {
-                  id: endCorner.id,
-                  from: { x: endCorner.x, y: endCorner.y },
-                  to: { x: endCorner.x + deltaX, y: endCorner.y + deltaY }
-                },
-                deltaX,
-                deltaY
-              });
-              // Move only the two corners of the dragged wall by the delta
-              const updatedCornersObj = { ...floorplan.corners };
-              if (updatedCornersObj[wall.startCorner]) {
-                updatedCornersObj[wall.startCorner] = {
-                  ...updatedCornersObj[wall.startCorner],
-                  x: updatedCornersObj[wall.startCorner].x + deltaX,
-                  y: updatedCornersObj[wall.startCorner].y + deltaY
-                };
-              }
-              if (updatedCornersObj[wall.endCorner]) {
-                updatedCornersObj[wall.endCorner] = {
-                  ...updatedCornersObj[wall.endCorner],
-                  x: updatedCornersObj[wall.endCorner].x + deltaX,
-                  y: updatedCornersObj[wall.endCorner].y + deltaY
-                };
-              }
-              useFloorplanStore.setState(state => ({
-                floorplan: {
-                  ...state.floorplan,
-                  corners: updatedCornersObj
-                }
-              }));
-              // Log the updated state for debugging
-              console.log('[WALL MOVE][UPDATED STATE]', updatedCornersObj);
-            }
-            newState.lastX = event.clientX;
-            newState.lastY = event.clientY;
+      return newState;
+    });
+
+    // Handle selection, corner and wall dragging in MOVE mode
+    if (editorMode === EditorMode.MOVE && mouseState.isDown && !panningRef.current) {
+      const item = itemHandleRef.current && useFloorplanStore.getState().floorplan.items[itemHandleRef.current.itemId];
+      if (itemHandleRef.current && item) {
+        const { handle } = itemHandleRef.current;
+        if (handle === 'rotate') {
+          // Turn in angle snap steps unless Shift is held
+          let rotation = getRotationToward(item, world);
+          if (snapSettings.angleStep > 0 && !event.shiftKey) {
+            const step = (snapSettings.angleStep * Math.PI) / 180;
+            rotation = Math.round(rotation / step) * step;
           }
+          rotateItem(item.id, { ...item.rotation, y: rotation });
+        } else {
+          const point = snapSettings.grid && !event.shiftKey ? MathUtils.snapToGrid(world, config.gridSize) : world;
+          const { position, scale } = resizeItemFromCorner(item, handle, point, MIN_ITEM_SIZE);
+          scaleItem(item.id, scale);
+          moveItem(item.id, position);
+        }
+      } else if (marquee) {
+        setMarquee(prev => prev && { ...prev, end: world });
+      } else if (groupDragRef.current) {
+        // Move by whole grid steps unless Shift is held
+        const { origin, applied, item: dragged } = groupDragRef.current;
+        const rawOffset = { x: world.x - origin.x, y: world.y - origin.y };
+        let offset = rawOffset;
+        if (snapSettings.grid && !event.shiftKey) offset = MathUtils.snapToGrid(offset, config.gridSize);
+        const floorplan = useFloorplanStore.getState().floorplan;
+        const item = dragged && floorplan.items[dragged.id];
+        if (dragged && item) {
+          // Put a lone item against a wall it comes near, or else where the
+          // drag has taken it
+          const target = { x: dragged.start.x + rawOffset.x, y: dragged.start.y + rawOffset.y };
+          const attached = snapSettings.walls && !event.shiftKey &&
+            attachToNearestWall(item, target, floorplan, config.snapTolerance, getWallsNearItem(item, target));
+          const x = dragged.start.x + offset.x;
+          const z = dragged.start.y + offset.y;
+          if (attached && attached.attachment) attachItem(item.id, attached.attachment);
+          else if (item.attachment || item.position.x !== x || item.position.z !== z) moveItem(item.id, { ...item.position, x, z });
+        } else if (offset.x !== applied.x || offset.y !== applied.y) {
+          moveSelection(offset.x - applied.x, offset.y - applied.y);
+        }
+        groupDragRef.current = { ...groupDragRef.current, applied: offset };
+      } else if (activeCorner) {
+        const exclude = new Set([activeCorner.id]);
+        const snapped = snap(world, event.shiftKey, getNeighbourAnchors(activeCorner.id, exclude), exclude);
+        setActiveSnap(snapped);
+        moveCorner(activeCorner.id, snapped.point.x, snapped.point.y);
+      } else if (draggedWallId && wallDragRef.current) {
+        // Snap whichever end of the wall finds the closer snap, and move the
+        // whole wall by that end's offset
+        const { origin, start, end } = wallDragRef.current;
+        const wall = useFloorplanStore.getState().floorplan.walls[draggedWallId];
+        const current = wall && useFloorplanStore.getState().floorplan.corners[wall.startCorner];
+        if (wall && current) {
+          const offset = { x: world.x - origin.x, y: world.y - origin.y };
+          const exclude = new Set([wall.startCorner, wall.endCorner]);
+          const ends = [
+            { cornerId: wall.startCorner, from: start },
+            { cornerId: wall.endCorner, from: end },
+          ].map(({ cornerId, from }) => {
+            const moved = { x: from.x + offset.x, y: from.y + offset.y };
+            const snapped = snap(moved, event.shiftKey, getNeighbourAnchors(cornerId, exclude), exclude);
+            return { ...snapped, shift: { x: snapped.point.x - moved.x, y: snapped.point.y - moved.y } };
+          });
+          const guided = ends.filter(e => e.guides.length > 0 || e.objectSnap);
+          const best = guided.length > 0
+            ? guided.reduce((a, b) => (Math.hypot(a.shift.x, a.shift.y) <= Math.hypot(b.shift.x, b.shift.y) ? a : b))
+            : ends[0];
+          setActiveSnap(best);
+          moveWall(
+            draggedWallId,
+            start.x + offset.x + best.shift.x - current.x,
+            start.y + offset.y + best.shift.y - current.y
+          );
         }
       }
-      return newState;
-    });
+    }
 
     // Update hover states and set active wall for MOVE mode
     if (!mouseState.isDown) {
@@ -361,7 +688,9 @@ export default function FloorplanEditor({ className }: FloorplanEditorProps) {
         setActiveWall(hoverWall);
       }
       // Change cursor to pointer if hovering wall in MOVE mode
-      if (editorMode === EditorMode.MOVE && hoverWall) {
+      if (editorMode === EditorMode.MOVE && findItemHandleAt(world)) {
+        if (canvasRef.current) canvasRef.current.style.cursor = 'pointer';
+      } else if (editorMode === EditorMode.MOVE && hoverWall) {
         if (canvasRef.current) canvasRef.current.style.cursor = 'grab';
       } else if (canvasRef.current) {
         canvasRef.current.style.cursor = editorMode === EditorMode.MOVE ? 'default' : 'crosshair';
@@ -369,19 +698,35 @@ export default function FloorplanEditor({ className }: FloorplanEditorProps) {
     }
 
     // Update drawing target
-    if (editorMode === EditorMode.DRAW || (editorMode === EditorMode.MOVE && mouseState.isDown)) {
-      updateTarget();
+    if (editorMode === EditorMode.DRAW) {
+      updateTarget(world, event.shiftKey);
     }
-  }, [canvasToWorld, editorMode, activeCorner, activeWall, corners, findCornerAt, findWallAt, mouseState.isDown, setActiveCorner, setActiveWall, updateTarget, viewport.cmPerPixel, handlePan, moveCorner]);
+  }, [canvasToWorld, editorMode, activeCorner, activeWall, draggedWallId, findCornerAt, findWallAt, mouseState.isDown, setActiveCorner, setActiveWall, updateTarget, handlePan, moveCorner, moveWall, snap, getNeighbourAnchors, marquee, moveSelection, snapSettings.grid, snapSettings.angleStep, snapSettings.walls, config.gridSize, config.snapTolerance, findItemHandleAt, rotateItem, scaleItem, moveItem, attachItem]);
 
-  // Handle mouse up
+  // Handle mouse up, wherever the button is released
   const handleMouseUp = useCallback(() => {
+    // Only a press that began on the canvas has anything to finish
+    if (!mouseState.isDown) return;
+
+    if (panningRef.current) {
+      panningRef.current = false;
+      setMouseState(prev => ({ ...prev, isDown: false }));
+      return;
+    }
+
+    if (marquee) {
+      finishMarquee(marquee);
+      setMarquee(null);
+    }
+
     if (editorMode === EditorMode.DRAW && !mouseState.hasMoved) {
-      const clickedCorner = findCornerAt(drawingState.targetX, drawingState.targetY);
+      // A click may add a corner and a wall; undo them together
+      beginTransaction();
+      const clickedCorner = findOrSplitCornerAt(drawingState.targetX, drawingState.targetY);
       // Check if user clicked on the first point to close the room
       const isClosing = drawingState.lastNode && drawingState.firstCorner &&
         clickedCorner && clickedCorner.id === drawingState.firstCorner.id &&
-        distance({ x: drawingState.targetX, y: drawingState.targetY }, drawingState.firstCorner) < SNAP_TOLERANCE;
+        distance({ x: drawingState.targetX, y: drawingState.targetY }, drawingState.firstCorner) < config.snapTolerance;
 
       if (!drawingState.lastNode) {
         // First point: create and remember as firstCorner
@@ -409,10 +754,10 @@ export default function FloorplanEditor({ className }: FloorplanEditorProps) {
           id: `wall-${Date.now()}`,
           startCorner: drawingState.lastNode.id,
           endCorner: drawingState.firstCorner.id,
-          thickness: 10,
-          height: 250
+          thickness: config.wallThickness,
+          height: config.wallHeight
         };
-        addWall(newWall);
+        addDrawnWall(newWall);
         useFloorplanStore.getState().setEditorMode(EditorMode.MOVE);
         setDrawingState({ lastNode: null, targetX: 0, targetY: 0, firstCorner: null });
       } else if (drawingState.lastNode) {
@@ -423,10 +768,10 @@ export default function FloorplanEditor({ className }: FloorplanEditorProps) {
             id: `wall-${Date.now()}`,
             startCorner: drawingState.lastNode.id,
             endCorner: clickedCorner.id,
-            thickness: 10,
-            height: 250
+            thickness: config.wallThickness,
+            height: config.wallHeight
           };
-          addWall(newWall);
+          addDrawnWall(newWall);
           setDrawingState(prev => ({ ...prev, lastNode: clickedCorner, targetX: clickedCorner.x, targetY: clickedCorner.y }));
         } else {
           // Add new corner and wall as usual
@@ -441,13 +786,27 @@ export default function FloorplanEditor({ className }: FloorplanEditorProps) {
             id: `wall-${Date.now()}`,
             startCorner: drawingState.lastNode.id,
             endCorner: newCorner.id,
-            thickness: 10,
-            height: 250
+            thickness: config.wallThickness,
+            height: config.wallHeight
           };
-          addWall(newWall);
+          addDrawnWall(newWall);
           setDrawingState(prev => ({ ...prev, lastNode: newCorner, targetX: newCorner.x, targetY: newCorner.y }));
         }
       }
+      commitTransaction();
+    }
+
+    // A corner dropped onto another merges into it, in the same undo step
+    // as the drag
+    if (editorMode === EditorMode.MOVE && activeCorner && mouseState.hasMoved) {
+      const dropped = useFloorplanStore.getState().floorplan.corners[activeCorner.id];
+      const target = dropped && spatialIndex.findCornerAt(dropped, config.snapTolerance, new Set([dropped.id]));
+      if (target) mergeCorners(dropped.id, target.id);
+    }
+
+    if (dragTransactionRef.current) {
+      commitTransaction();
+      dragTransactionRef.current = false;
     }
 
     setMouseState(prev => ({
@@ -455,7 +814,18 @@ export default function FloorplanEditor({ className }: FloorplanEditorProps) {
       isDown: false
     }));
     setDraggedWallId(null);
-  }, [editorMode, mouseState.hasMoved, drawingState.targetX, drawingState.targetY, drawingState.lastNode, drawingState.firstCorner, addCorner, addWall, findCornerAt]);
+    wallDragRef.current = null;
+    groupDragRef.current = null;
+    itemHandleRef.current = null;
+    if (editorMode !== EditorMode.DRAW) setActiveSnap(null);
+  }, [marquee, finishMarquee, editorMode, mouseState.isDown, mouseState.hasMoved, drawingState.targetX, drawingState.targetY, drawingState.lastNode, drawingState.firstCorner, addCorner, addDrawnWall, findOrSplitCornerAt, beginTransaction, commitTransaction, activeCorner, mergeCorners, spatialIndex, config]);
+
+  // Listen on the window, so a drag released outside the canvas still ends
+  // and commits its undo step
+  useEffect(() => {
+    window.addEventListener('mouseup', handleMouseUp);
+    return () => window.removeEventListener('mouseup', handleMouseUp);
+  }, [handleMouseUp]);
 
     // Handle mouse wheel for zooming
   const handleWheel = useCallback((event: React.WheelEvent<HTMLCanvasElement>) => {
@@ -469,116 +839,44 @@ export default function FloorplanEditor({ className }: FloorplanEditorProps) {
 
   // Drawing functions
   const drawWall = useCallback((ctx: CanvasRenderingContext2D, wall: Wall) => {
-    const startCorner = corners.find(c => c.id === wall.startCorner);
-    const endCorner = corners.find(c => c.id === wall.endCorner);
-    if (!startCorner || !endCorner) return;
-
-    const start = worldToCanvas(startCorner.x, startCorner.y);
-    const end = worldToCanvas(endCorner.x, endCorner.y);
     const isHover = wall === activeWall;
     const isDelete = editorMode === EditorMode.DELETE && isHover;
-    const isSelected = wall.id === selectedWallId;
-
-    // Wall thickness in canvas px (scale with zoom)
-    const wallThicknessCm = wall.thickness || 10;
-    const wallThicknessPx = wallThicknessCm * viewport.pixelsPerCm;
-    const doubleLineGapPx = Math.max(4, wallThicknessPx * 0.5);
-
-    // Direction vector
-    const dx = end.x - start.x;
-    const dy = end.y - start.y;
-    const len = Math.sqrt(dx * dx + dy * dy);
-    if (len === 0) return;
-    const nx = -dy / len; // normal x
-    const ny = dx / len;  // normal y
-
-    // Outer lines (double wall)
-    ctx.save();
-    ctx.lineCap = 'round';
-    // Shadow/outline
-    ctx.strokeStyle = 'rgba(0,0,0,0.10)';
-    ctx.lineWidth = wallThicknessPx + 6;
-    ctx.beginPath();
-    ctx.moveTo(start.x, start.y);
-    ctx.lineTo(end.x, end.y);
-    ctx.stroke();
-
-    // Main fill (between double lines)
-    ctx.strokeStyle = isDelete
-      ? DELETE_COLOR
-      : isSelected
-        ? '#f59e42' // orange highlight for selected
-        : isHover
-          ? WALL_COLOR_HOVER
-          : WALL_COLOR;
-    ctx.lineWidth = wallThicknessPx;
-    ctx.beginPath();
-    ctx.moveTo(start.x, start.y);
-    ctx.lineTo(end.x, end.y);
-    ctx.stroke();
-
-    // Double lines (edges)
-    ctx.strokeStyle = '#bbb';
-    ctx.lineWidth = 2;
-    for (const offset of [-doubleLineGapPx/2, doubleLineGapPx/2]) {
-      ctx.beginPath();
-      ctx.moveTo(start.x + nx * offset, start.y + ny * offset);
-      ctx.lineTo(end.x + nx * offset, end.y + ny * offset);
-      ctx.stroke();
-    }
-    ctx.restore();
-
-    // Draw dimension label (centered above wall)
-    const midX = (start.x + end.x) / 2;
-    const midY = (start.y + end.y) / 2;
-    const labelDist = wallThicknessPx + 16; // px above wall
-    // Place label above wall (normal direction)
-    const labelX = midX + nx * labelDist;
-    const labelY = midY + ny * labelDist;
-    // Wall length in cm
-    const wallLengthCm = Math.sqrt(
-      Math.pow(startCorner.x - endCorner.x, 2) + Math.pow(startCorner.y - endCorner.y, 2)
-    );
-    const label = formatFeetInches(wallLengthCm);
+    const isSelected = selection.walls.includes(wall.id);
+    const isEditing = editingWallId === wall.id && !!editPos;
+
+    renderWall(ctx, canvasView, wall, floorplan, {
+      color: isDelete
+        ? DELETE_COLOR
+        : isSelected
+          ? WALL_COLOR_SELECTED
+          : isHover
+            ? WALL_COLOR_HOVER
+            : WALL_COLOR,
+      // If editing this wall, skip drawing label (input will be rendered in React)
+      showLabel: !isEditing,
+      lengthFormat: config,
+    });
 
-    // If editing this wall, skip drawing label (input will be rendered in React)
-    if (editingWallId === wall.id && editPos) {
-      setEditPos({ x: labelX, y: labelY }); // keep position updated
-      return;
+    if (isEditing) {
+      const startCorner = floorplan.corners[wall.startCorner];
+      const endCorner = floorplan.corners[wall.endCorner];
+      const label = startCorner && endCorner && getWallLabelPosition(canvasView, startCorner, endCorner, wall.thickness || 10);
+      if (label) setEditPos(label); // keep position updated
     }
-
-    ctx.save();
-    ctx.font = `bold 15px Inter, Arial, sans-serif`;
-    ctx.textAlign = 'center';
-    ctx.textBaseline = 'middle';
-    // White background for label
-    const textWidth = ctx.measureText(label).width;
-    ctx.fillStyle = 'white';
-    ctx.globalAlpha = 0.85;
-    ctx.fillRect(labelX - textWidth/2 - 6, labelY - 13, textWidth + 12, 26);
-    ctx.globalAlpha = 1.0;
-    // Label text
-    ctx.fillStyle = '#222';
-    ctx.strokeStyle = 'white';
-    ctx.lineWidth = 3;
-    ctx.strokeText(label, labelX, labelY);
-    ctx.fillText(label, labelX, labelY);
-    ctx.restore();
-  }, [corners, worldToCanvas, activeWall, editorMode, viewport.pixelsPerCm, selectedWallId, editingWallId, editPos]);
+  }, [canvasView, floorplan, activeWall, editorMode, selection.walls, editingWallId, editPos, config]);
 
   const drawCorner = useCallback((ctx: CanvasRenderingContext2D, corner: Corner) => {
-    const pos = worldToCanvas(corner.x, corner.y);
     const isHover = corner === activeCorner;
     const isDelete = editorMode === EditorMode.DELETE && isHover;
-    
-    const radius = isHover ? CORNER_RADIUS_HOVER : CORNER_RADIUS;
-    if (radius <= 0) return;
-    
-    ctx.fillStyle = isDelete ? DELETE_COLOR : (isHover ? CORNER_COLOR_HOVER : CORNER_COLOR);
-    ctx.beginPath();
-    ctx.arc(pos.x, pos.y, radius, 0, 2 * Math.PI);
-    ctx.fill();
-  }, [worldToCanvas, activeCorner, editorMode]);
+    const isSelected = selection.corners.includes(corner.id);
+    renderCorner(
+      ctx,
+      canvasView,
+      corner,
+      isHover || isSelected ? CORNER_RADIUS_HOVER : CORNER_RADIUS,
+      isDelete ? DELETE_COLOR : (isHover ? CORNER_COLOR_HOVER : isSelected ? SELECTION_COLOR : CORNER_COLOR)
+    );
+  }, [canvasView, activeCorner, editorMode, selection.corners]);
 
   const drawTarget = useCallback((ctx: CanvasRenderingContext2D) => {
     if (editorMode !== EditorMode.DRAW) return;
@@ -602,43 +900,12 @@ export default function FloorplanEditor({ className }: FloorplanEditorProps) {
       ctx.stroke();
 
       // Live dimension label
-      // Compute wall length in cm
-      const dx = drawingState.targetX - drawingState.lastNode.x;
-      const dy = drawingState.targetY - drawingState.lastNode.y;
-      const wallLengthCm = Math.sqrt(dx * dx + dy * dy);
-      const label = formatFeetInches(wallLengthCm);
-      // Place label above wall (normal direction)
-      const midX = (lastPos.x + target.x) / 2;
-      const midY = (lastPos.y + target.y) / 2;
-      const len = Math.sqrt((target.x - lastPos.x) ** 2 + (target.y - lastPos.y) ** 2);
-      let nx = 0, ny = 0;
-      if (len > 0) {
-        nx = -(target.y - lastPos.y) / len;
-        ny = (target.x - lastPos.x) / len;
-      }
-      const wallThicknessPx = 10 * viewport.pixelsPerCm;
-      const labelDist = wallThicknessPx + 16;
-      const labelX = midX + nx * labelDist;
-      const labelY = midY + ny * labelDist;
-
-      ctx.font = `bold 15px Inter, Arial, sans-serif`;
-      ctx.textAlign = 'center';
-      ctx.textBaseline = 'middle';
-      const textWidth = ctx.measureText(label).width;
-      ctx.save();
-      ctx.fillStyle = 'white';
-      ctx.globalAlpha = 0.85;
-      ctx.fillRect(labelX - textWidth/2 - 6, labelY - 13, textWidth + 12, 26);
-      ctx.globalAlpha = 1.0;
-      ctx.fillStyle = '#222';
-      ctx.strokeStyle = 'white';
-      ctx.lineWidth = 3;
-      ctx.strokeText(label, labelX, labelY);
-      ctx.fillText(label, labelX, labelY);
-      ctx.restore();
+      const wallLengthCm = distance({ x: drawingState.targetX, y: drawingState.targetY }, drawingState.lastNode);
+      const labelPos = getWallLabelPosition(canvasView, drawingState.lastNode, { x: drawingState.targetX, y: drawingState.targetY }, 10);
       ctx.restore();
+      if (labelPos) drawLabel(ctx, canvasView, formatLength(wallLengthCm, config), labelPos.x, labelPos.y);
     }
-  }, [editorMode, drawingState, worldToCanvas, formatFeetInches, viewport.pixelsPerCm]);
+  }, [editorMode, drawingState, worldToCanvas, canvasView, config]);
 
   // Main drawing loop
   const draw = useCallback(() => {
@@ -653,15 +920,59 @@ export default function FloorplanEditor({ className }: FloorplanEditorProps) {
     // Draw grid
     drawGrid(ctx, canvas.width, canvas.height);
 
+    // Fill rooms in their type's colour and highlight the selected ones
+    Object.values(floorplan.rooms).forEach(room => {
+      if (room.type) drawPolygon(ctx, canvasView, getRoomOutline(room, floorplan.corners), ROOM_TYPES[room.type].fill, null);
+    });
+    selection.rooms.forEach(id => {
+      const room = floorplan.rooms[id];
+      const outline = room ? getRoomOutline(room, floorplan.corners) : [];
+      drawPolygon(ctx, canvasView, outline, SELECTION_FILL, null);
+    });
+
     // Draw walls
     walls.forEach(wall => drawWall(ctx, wall));
 
+    // Label rooms with their name, net area and perimeter
+    roomMeasurements.forEach(({ room, area, perimeter, labelPoint }) => {
+      drawRoomLabel(ctx, canvasView, labelPoint, room.name ?? 'Room', [
+        formatArea(area, config),
+        `Perimeter ${formatLength(perimeter, config)}`,
+      ]);
+    });
+
+    // Draw items, red where they conflict, with handles on a lone selected one
+    const conflicted = getConflictedItemIds(conflicts);
+    const blockedClearance = new Set(conflicts.filter(conflict => conflict.clearance).map(conflict => conflict.itemId));
+    Object.values(floorplan.items).forEach(item => {
+      const stroke = selection.items.includes(item.id) ? SELECTION_COLOR : conflicted.has(item.id) ? CONFLICT_COLOR : undefined;
+      drawClearanceZones(ctx, canvasView, item, blockedClearance.has(item.id));
+      drawItem(ctx, canvasView, item, stroke, conflicted.has(item.id) ? CONFLICT_FILL : undefined);
+    });
+    const handleItem = getHandleItem();
+    if (handleItem) {
+      drawItemHandles(ctx, canvasView, getItemHandles(handleItem, ROTATE_HANDLE_OFFSET * viewport.cmPerPixel), handleItem.metadata.resizable);
+    }
+
     // Draw corners
     corners.forEach(corner => drawCorner(ctx, corner));
 
     // Draw drawing target
     drawTarget(ctx);
-  }, [drawGrid, walls, drawWall, corners, drawCorner, drawTarget, editingWallId, editPos]);
+
+    if (activeSnap) {
+      drawSnapGuides(ctx, canvasView, activeSnap.guides);
+      if (activeSnap.objectSnap) drawSnapGlyph(ctx, canvasView, activeSnap.objectSnap, activeSnap.point);
+    }
+    if (marquee) drawMarquee(ctx, canvasView, marquee.start, marquee.end);
+
+    // Outline of the item a click would place
+    const placing = editorMode === EditorMode.PLACE_ITEM && placingEntryId ? getCatalogEntry(placingEntryId) : null;
+    if (placing && cursorPosition) {
+      const preview = getPlacedItem(placing, cursorPosition, false);
+      drawPolygon(ctx, canvasView, getItemFootprint({ ...preview, id: '' }), null, SELECTION_COLOR);
+    }
+  }, [drawGrid, walls, drawWall, corners, drawCorner, drawTarget, editingWallId, editPos, canvasView, activeSnap, marquee, selection, floorplan, editorMode, placingEntryId, cursorPosition, getPlacedItem, getHandleItem, viewport.cmPerPixel, conflicts, roomMeasurements, config]);
 
   // Canvas setup and resize handling
   useEffect(() => {
@@ -696,14 +1007,52 @@ export default function FloorplanEditor({ className }: FloorplanEditorProps) {
         ...prev,
         lastNode: null
       }));
+      setActiveSnap(null);
     }
   }, [editorMode]);
 
-  // Handle escape key to reset mode
+  // Handle escape key to reset mode, and undo/redo shortcuts
   useEffect(() => {
     const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement | null;
+      const isTyping = target?.tagName === 'INPUT' || target?.tagName === 'TEXTAREA';
+      if ((event.ctrlKey || event.metaKey) && !isTyping) {
+        const key = event.key.toLowerCase();
+        if (key === 'z' && !event.shiftKey) {
+          event.preventDefault();
+          useFloorplanStore.getState().undo();
+          return;
+        }
+        if ((key === 'z' && event.shiftKey) || key === 'y') {
+          event.preventDefault();
+          useFloorplanStore.getState().redo();
+          return;
+        }
+        if (key === 'c') {
+          useFloorplanStore.getState().copySelection();
+          return;
+        }
+        if (key === 'v') {
+          event.preventDefault();
+          useFloorplanStore.getState().paste();
+          return;
+        }
+        if (key === 'd') {
+          event.preventDefault();
+          useFloorplanStore.getState().duplicateSelection();
+          return;
+        }
+      }
+      if ((event.key === 'Delete' || event.key === 'Backspace') && !isTyping) {
+        if (countSelected(useFloorplanStore.getState().selection) > 0) {
+          event.preventDefault();
+          useFloorplanStore.getState().removeSelection();
+        }
+        return;
+      }
       if (event.key === 'Escape') {
-        useFloorplanStore.setState({ editorMode: EditorMode.MOVE });
+        useFloorplanStore.getState().clearSelection();
+        useFloorplanStore.getState().setPlacingEntry(null);
         setDrawingState(prev => ({
           ...prev,
           lastNode: null
@@ -722,92 +1071,42 @@ export default function FloorplanEditor({ className }: FloorplanEditorProps) {
     const canvasX = event.clientX - rect.left;
     const canvasY = event.clientY - rect.top;
     // Find wall label under click
+    const ctx = canvasRef.current.getContext('2d');
+    if (!ctx) return;
     for (const wall of walls) {
-      const startCorner = corners.find(c => c.id === wall.startCorner);
-      const endCorner = corners.find(c => c.id === wall.endCorner);
+      const startCorner = floorplan.corners[wall.startCorner];
+      const endCorner = floorplan.corners[wall.endCorner];
       if (!startCorner || !endCorner) continue;
-      const start = worldToCanvas(startCorner.x, startCorner.y);
-      const end = worldToCanvas(endCorner.x, endCorner.y);
-      const dx = end.x - start.x;
-      const dy = end.y - start.y;
-      const len = Math.sqrt(dx * dx + dy * dy);
-      if (len === 0) continue;
-      const nx = -dy / len;
-      const ny = dx / len;
-      const wallThicknessPx = (wall.thickness || 10) * viewport.pixelsPerCm;
-      const labelDist = wallThicknessPx + 16;
-      const midX = (start.x + end.x) / 2;
-      const midY = (start.y + end.y) / 2;
-      const labelX = midX + nx * labelDist;
-      const labelY = midY + ny * labelDist;
+      const labelPos = getWallLabelPosition(canvasView, startCorner, endCorner, wall.thickness || 10);
+      if (!labelPos) continue;
       // Hit test: within label box
-      const wallLengthCm = Math.sqrt(
-        Math.pow(startCorner.x - endCorner.x, 2) + Math.pow(startCorner.y - endCorner.y, 2)
-      );
-      const label = formatFeetInches(wallLengthCm);
-      // Estimate label box
-      const ctx = canvasRef.current.getContext('2d');
-      if (!ctx) continue;
-      ctx.font = `bold 15px Inter, Arial, sans-serif`;
-      const textWidth = ctx.measureText(label).width;
-      const box = {
-        left: labelX - textWidth/2 - 6,
-        right: labelX + textWidth/2 + 6,
-        top: labelY - 13,
-        bottom: labelY + 13
-      };
+      const label = formatLength(distance(startCorner, endCorner), config);
+      const box = measureLabel(ctx, canvasView, label, labelPos.x, labelPos.y);
       if (canvasX >= box.left && canvasX <= box.right && canvasY >= box.top && canvasY <= box.bottom) {
         setEditingWallId(wall.id);
         setEditValue(label);
-        setEditPos({ x: labelX, y: labelY });
+        setEditLabel(label);
+        setEditPos(labelPos);
         return;
       }
     }
-  }, [walls, corners, worldToCanvas, viewport.pixelsPerCm]);
+  }, [walls, floorplan.corners, canvasView, config]);
 
   // Handle input change and commit
   const handleEditChange = (e: React.ChangeEvent<HTMLInputElement>) => setEditValue(e.target.value);
   const handleEditBlurOrEnter = useCallback(() => {
     if (!editingWallId) return;
-    const wall = walls.find(w => w.id === editingWallId);
-    if (!wall) {
-      setEditingWallId(null);
-      setEditPos(null);
-      return;
+    const cancelled = cancelEditRef.current;
+    cancelEditRef.current = false;
+    // An untouched label must not write back its rounded length
+    if (!cancelled && editValue !== editLabel) {
+      const newLenCm = parseLength(editValue, config);
+      // Ignore invalid and too small lengths
+      if (newLenCm && newLenCm >= 10) setWallLength([editingWallId], newLenCm);
     }
-    const startCorner = corners.find(c => c.id === wall.startCorner);
-    const endCorner = corners.find(c => c.id === wall.endCorner);
-    if (!startCorner || !endCorner) {
-      setEditingWallId(null);
-      setEditPos(null);
-      return;
-    }
-    const newLenCm = parseFeetInches(editValue);
-    if (!newLenCm || newLenCm < 10) { // ignore too small/invalid
-      setEditingWallId(null);
-      setEditPos(null);
-      return;
-    }
-    // Move endCorner to new length, keeping direction
-    const dx = endCorner.x - startCorner.x;
-    const dy = endCorner.y - startCorner.y;
-    const oldLen = Math.sqrt(dx * dx + dy * dy);
-    if (oldLen === 0) {
-      setEditingWallId(null);
-      setEditPos(null);
-      return;
-    }
-    const scale = newLenCm / oldLen;
-    const newEnd = {
-      ...endCorner,
-      x: startCorner.x + dx * scale,
-      y: startCorner.y + dy * scale
-    };
-    // Update corner in store
-    useFloorplanStore.getState().moveCorner(newEnd.id, newEnd.x, newEnd.y);
     setEditingWallId(null);
     setEditPos(null);
-  }, [editingWallId, editValue, walls, corners]);
+  }, [editingWallId, editValue, editLabel, config, setWallLength]);
 
   // Render input box at label position
   const renderEditInput = () => {
@@ -819,7 +1118,11 @@ export default function FloorplanEditor({ className }: FloorplanEditorProps) {
         value={editValue}
         onChange={handleEditChange}
         onBlur={handleEditBlurOrEnter}
-        onKeyDown={e => { if (e.key === 'Enter') handleEditBlurOrEnter(); }}
+        onKeyDown={e => {
+          // Both end the edit through blur; Escape leaves the wall as it was
+          if (e.key === 'Escape') cancelEditRef.current = true;
+          if (e.key === 'Enter' || e.key === 'Escape') e.currentTarget.blur();
+        }}
         style={{
           position: 'absolute',
           left: editPos.x - 50,
@@ -847,7 +1150,9 @@ export default function FloorplanEditor({ className }: FloorplanEditorProps) {
         className="w-full h-full cursor-crosshair"
         onMouseDown={handleMouseDown}
         onMouseMove={handleMouseMove}
-        onMouseUp={handleMouseUp}
+        onMouseLeave={() => setCursorPosition(null)}
+        onDragOver={handleDragOver}
+        onDrop={handleDrop}
         onWheel={handleWheel}
         onDoubleClick={handleCanvasDoubleClick}
       />
@@ -858,10 +1163,16 @@ export default function FloorplanEditor({ className }: FloorplanEditorProps) {
             <div>Mode: <span className="font-medium">{editorMode}</span></div>
             <div>View: <span className="font-medium">{viewMode}</span></div>
             <div>Zoom: <span className="font-medium">{(viewport.zoom * 100).toFixed(0)}%</span></div>
+            {cursorPosition && (
+              <div>Cursor: <span className="font-medium">{formatCoordinate(cursorPosition, config)}</span></div>
+            )}
             <div className="text-xs text-gray-500 mt-2">
               {editorMode === EditorMode.DRAW && 'Click to place corners and walls'}
-              {editorMode === EditorMode.MOVE && 'Drag corners/walls or pan view'}
+              {editorMode === EditorMode.MOVE && 'Drag corners/walls, drag a box to select (Shift adds), middle-drag to pan'}
               {editorMode === EditorMode.DELETE && 'Click corners/walls to delete'}
+              {editorMode === EditorMode.PLACE_DOOR && 'Click a wall to add a door'}
+              {editorMode === EditorMode.PLACE_WINDOW && 'Click a wall to add a window'}
+              {editorMode === EditorMode.PLACE_ITEM && 'Click to place the item (Shift places freely), Esc to stop'}
             </div>
           </div>
         </div>
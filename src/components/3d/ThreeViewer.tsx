@@ -1,48 +1,305 @@
 'use client';
 
-import { useRef, useEffect } from 'react';
+import { useEffect, useMemo, useState } from 'react';
+import { Canvas, useThree } from '@react-three/fiber';
+import { OrbitControls } from '@react-three/drei';
+import * as THREE from 'three';
+import { useShallow } from 'zustand/react/shallow';
+import { Corner, Item3D, Room, Texture, Wall } from '@/types';
+import { DEFAULT_ITEM_DIMENSIONS } from '@/lib/config';
+import { CATALOG_DRAG_TYPE, createCatalogItem, getCatalogEntry } from '@/lib/catalog';
+import { GeometryUtils, MathUtils } from '@/lib/utils/math';
+import { getRoomOutline } from '@/lib/utils/rooms';
+import { getWallOpenings } from '@/lib/utils/openings';
+import { AssetCache, centerModel } from '@/lib/three/assets';
+import { useFloorplanStore } from '@/stores/floorplan-store';
+import { useConflicts } from '@/lib/hooks/useConflicts';
+import { getConflictedItemIds } from '@/lib/utils/collisions';
+import { attachToNearestWall } from '@/lib/utils/wall-items';
+import {
+  createFloorGeometry,
+  createWallGeometry,
+  FLOOR_ROTATION_X,
+  getFloorColor,
+  getPlanBounds,
+  getWallPlacement,
+  setTextureRepeat,
+  splitWallFaces,
+  WALL_COLOR,
+} from '@/lib/three/floorplan-geometry';
 
-export default function ThreeViewer() {
-  const mountRef = useRef<HTMLDivElement>(null);
+const GROUND_COLOR = '#e5e7eb';
+const ITEM_COLOR = '#c8a27c'; // stand-in for items without a model
+const CONFLICT_COLOR = '#dc2626';
+const CONFLICT_MARGIN = 1.02; // the conflict box wraps the item slightly
 
-  useEffect(() => {
-    if (!mountRef.current) return;
-
-    // We'll implement Three.js once the dependencies are installed
-    // For now, just show a placeholder
-    const container = mountRef.current;
-    container.innerHTML = `
-      <div style="
-        width: 100%;
-        height: 100%;
-        display: flex;
-        align-items: center;
-        justify-content: center;
-        background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
-        color: white;
-        font-family: sans-serif;
-      ">
-        <div style="text-align: center;">
-          <div style="font-size: 48px; margin-bottom: 16px;">🏠</div>
-          <h2 style="margin: 0 0 8px 0; font-size: 24px;">3D Viewer</h2>
-          <p style="margin: 0; opacity: 0.8;">Three.js integration coming soon...</p>
-          <p style="margin: 8px 0 0 0; opacity: 0.6; font-size: 14px;">
-            This will show your floorplan in 3D with furniture placement
-          </p>
-        </div>
-      </div>
-    `;
+// Textures and item models, loaded once for all views
+const assets = new AssetCache();
+
+// Dispose a generated geometry when it is replaced or unmounted
+function useDisposable<T extends { dispose: () => void } | null>(value: T): T {
+  useEffect(() => () => value?.dispose(), [value]);
+  return value;
+}
 
+// Load a surface's texture, wrapped to the surface's size. The image is
+// shared through the asset cache; each surface wraps its own copy.
+function useSurfaceTexture(texture: Texture | undefined, size: { width: number; height: number }): THREE.Texture | null {
+  const [image, setImage] = useState<THREE.Texture | null>(null);
+  const url = texture?.url;
+
+  useEffect(() => {
+    setImage(null);
+    if (!url) return;
+    let cancelled = false;
+    assets.texture(url).then(loaded => {
+      if (!cancelled) setImage(loaded);
+    });
     return () => {
-      container.innerHTML = '';
+      cancelled = true;
     };
-  }, []);
+  }, [url]);
+
+  const map = useDisposable(useMemo(() => image?.clone() ?? null, [image]));
+  useEffect(() => {
+    if (map && texture) setTextureRepeat(map, texture, size);
+  }, [map, texture, size]);
+
+  return map;
+}
+
+function WallMesh({ wall, start, end }: { wall: Wall; start: Corner; end: Corner }) {
+  const corners = useMemo(() => ({ [start.id]: start, [end.id]: end }), [start, end]);
+  const placement = useMemo(() => getWallPlacement(wall, corners), [wall, corners]);
+  // Compared item by item, so editing another wall's openings keeps this one
+  const openings = useFloorplanStore(useShallow(state => getWallOpenings(wall.id, state.floorplan.openings)));
+  const geometry = useDisposable(
+    useMemo(() => {
+      if (!placement) return null;
+      const geometry = createWallGeometry(wall, placement.length, openings);
+      splitWallFaces(geometry);
+      return geometry;
+    }, [wall, placement, openings])
+  );
+
+  // Back, front and edge materials, in the order splitWallFaces groups them
+  const size = useMemo(() => ({ width: placement?.length ?? 1, height: wall.height }), [placement, wall.height]);
+  const backMap = useSurfaceTexture(wall.backTexture, size);
+  const frontMap = useSurfaceTexture(wall.frontTexture, size);
+  const materials = useMemo(
+    () => [backMap, frontMap, null].map(map => new THREE.MeshStandardMaterial({ color: map ? '#ffffff' : WALL_COLOR, map })),
+    [backMap, frontMap]
+  );
+  useEffect(() => () => materials.forEach(material => material.dispose()), [materials]);
+  if (!placement || !geometry) return null;
 
   return (
-    <div 
-      ref={mountRef} 
-      className="w-full h-full"
-      style={{ minHeight: '400px' }}
+    <mesh
+      name={`wall-${wall.id}`}
+      geometry={geometry}
+      material={materials}
+      position={placement.position}
+      rotation={[0, placement.rotationY, 0]}
+      castShadow
+      receiveShadow
     />
   );
 }
+
+// The corners of a room's outline, keyed by id
+function pickRoomCorners(room: Room, corners: Record<string, Corner>): Record<string, Corner> {
+  const picked: Record<string, Corner> = {};
+  room.corners.forEach(id => {
+    if (corners[id]) picked[id] = corners[id];
+  });
+  return picked;
+}
+
+function RoomFloor({ room }: { room: Room }) {
+  // Compared corner by corner, so moving other corners keeps this floor
+  const corners = useFloorplanStore(useShallow(state => pickRoomCorners(room, state.floorplan.corners)));
+  const geometry = useDisposable(useMemo(() => createFloorGeometry(room, corners), [room, corners]));
+  // The floor's UVs are plan cm, so a stretched texture spans the bounding box
+  const size = useMemo(() => {
+    const box = GeometryUtils.boundingBox(getRoomOutline(room, corners));
+    return { width: box ? box.maxX - box.minX || 1 : 1, height: box ? box.maxY - box.minY || 1 : 1 };
+  }, [room, corners]);
+  const map = useSurfaceTexture(room.floorTexture, size);
+  if (!geometry) return null;
+
+  return (
+    <mesh name={`room-${room.id}`} geometry={geometry} rotation={[FLOOR_ROTATION_X, 0, 0]} position={[0, 0.5, 0]} receiveShadow>
+      {/* Remount on a new map, as a material only picks up a map when compiled */}
+      <meshStandardMaterial key={map?.uuid ?? 'plain'} color={map ? '#ffffff' : getFloorColor(room)} map={map} side={THREE.DoubleSide} />
+    </mesh>
+  );
+}
+
+// Load an item's model, centred on its origin; null until it loads or if it
+// can't be
+function useItemModel(url: string): THREE.Object3D | null {
+  const [model, setModel] = useState<THREE.Object3D | null>(null);
+
+  useEffect(() => {
+    setModel(null);
+    let cancelled = false;
+    assets.model(url).then(loaded => {
+      if (cancelled || !loaded) return;
+      centerModel(loaded);
+      setModel(loaded);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [url]);
+
+  return model;
+}
+
+function ItemMesh({ item, conflicted }: { item: Item3D; conflicted: boolean }) {
+  const model = useItemModel(item.modelUrl);
+  const { width, depth, height } = item.dimensions ?? DEFAULT_ITEM_DIMENSIONS;
+
+  return (
+    <group
+      name={`item-${item.id}`}
+      position={[item.position.x, item.position.y, item.position.z]}
+      rotation={[item.rotation.x, item.rotation.y, item.rotation.z]}
+      scale={[item.scale.x, item.scale.y, item.scale.z]}
+    >
+      {model ? (
+        <primitive object={model} />
+      ) : (
+        <mesh castShadow receiveShadow>
+          <boxGeometry args={[width, height, depth]} />
+          <meshStandardMaterial color={ITEM_COLOR} />
+        </mesh>
+      )}
+      {conflicted && (
+        <mesh>
+          <boxGeometry args={[width * CONFLICT_MARGIN, height * CONFLICT_MARGIN, depth * CONFLICT_MARGIN]} />
+          <meshBasicMaterial color={CONFLICT_COLOR} transparent opacity={0.35} depthWrite={false} />
+        </mesh>
+      )}
+    </group>
+  );
+}
+
+// Place catalog entries dropped on the view where the pointer meets the floor
+function CatalogDropTarget() {
+  const { camera, gl } = useThree();
+
+  useEffect(() => {
+    const element = gl.domElement;
+    const raycaster = new THREE.Raycaster();
+    const floor = new THREE.Plane(new THREE.Vector3(0, 1, 0), 0);
+
+    const handleDragOver = (event: DragEvent) => {
+      if (!event.dataTransfer?.types.includes(CATALOG_DRAG_TYPE)) return;
+      event.preventDefault();
+      event.dataTransfer.dropEffect = 'copy';
+    };
+
+    const handleDrop = (event: DragEvent) => {
+      const entry = getCatalogEntry(event.dataTransfer?.getData(CATALOG_DRAG_TYPE) ?? '');
+      if (!entry) return;
+      event.preventDefault();
+      const rect = element.getBoundingClientRect();
+      const pointer = new THREE.Vector2(
+        ((event.clientX - rect.left) / rect.width) * 2 - 1,
+        -((event.clientY - rect.top) / rect.height) * 2 + 1
+      );
+      raycaster.setFromCamera(pointer, camera);
+      const hit = raycaster.ray.intersectPlane(floor, new THREE.Vector3());
+      if (!hit) return;
+
+      // On the grid or against a nearby wall unless Shift is held, as in the
+      // 2D editor
+      const store = useFloorplanStore.getState();
+      const free = event.shiftKey;
+      const raw = { x: hit.x, y: hit.z };
+      const point = store.snapSettings.grid && !free ? MathUtils.snapToGrid(raw, store.config.gridSize) : raw;
+      const item = createCatalogItem(entry, point, store.floorplan);
+      const attached = store.snapSettings.walls && !free && attachToNearestWall(item, raw, store.floorplan, store.config.snapTolerance);
+      const id = store.addItem(attached || item);
+      store.setSelection({ items: [id] });
+    };
+
+    element.addEventListener('dragover', handleDragOver);
+    element.addEventListener('drop', handleDrop);
+    return () => {
+      element.removeEventListener('dragover', handleDragOver);
+      element.removeEventListener('drop', handleDrop);
+    };
+  }, [camera, gl]);
+
+  return null;
+}
+
+function FloorplanScene() {
+  const corners = useFloorplanStore(state => state.floorplan.corners);
+  const walls = useFloorplanStore(state => state.floorplan.walls);
+  const rooms = useFloorplanStore(state => state.floorplan.rooms);
+  const items = useFloorplanStore(state => state.floorplan.items);
+  const conflicts = useConflicts();
+  const conflicted = useMemo(() => getConflictedItemIds(conflicts), [conflicts]);
+
+  return (
+    <group>
+      {Object.values(walls).map(wall => {
+        const start = corners[wall.startCorner];
+        const end = corners[wall.endCorner];
+        if (!start || !end) return null;
+        return (
+          <WallMesh
+            key={wall.id}
+            wall={wall}
+            start={start}
+            end={end}
+          />
+        );
+      })}
+      {Object.values(rooms).map(room => (
+        <RoomFloor key={room.id} room={room} />
+      ))}
+      {Object.values(items).map(item => (
+        <ItemMesh key={item.id} item={item} conflicted={conflicted.has(item.id)} />
+      ))}
+    </group>
+  );
+}
+
+export default function ThreeViewer() {
+  // Frame the plan once on mount; later edits should not move the camera
+  const [bounds] = useState(() => getPlanBounds(useFloorplanStore.getState().floorplan.corners));
+  const { center, size } = bounds;
+
+  return (
+    <div className="w-full h-full three-canvas" style={{ minHeight: '400px' }}>
+      <Canvas
+        shadows
+        camera={{
+          position: [center.x + size, size, center.y + size],
+          fov: 50,
+          near: 1,
+          far: size * 20,
+        }}
+      >
+        <color attach="background" args={['#f9fafb']} />
+        <ambientLight intensity={0.6} />
+        <directionalLight
+          position={[center.x + size, size * 2, center.y + size / 2]}
+          intensity={1.2}
+          castShadow
+        />
+        <mesh rotation={[FLOOR_ROTATION_X, 0, 0]} position={[center.x, 0, center.y]} receiveShadow>
+          <planeGeometry args={[size * 10, size * 10]} />
+          <meshStandardMaterial color={GROUND_COLOR} />
+        </mesh>
+        <FloorplanScene />
+        <CatalogDropTarget />
+        <OrbitControls makeDefault target={[center.x, 0, center.y]} maxPolarAngle={Math.PI / 2 - 0.05} />
+      </Canvas>
+    </div>
+  );
+}
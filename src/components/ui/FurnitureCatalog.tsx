@@ -0,0 +1,79 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { EditorMode } from '@/types';
+import { useFloorplanStore } from '@/stores/floorplan-store';
+import { CATALOG_CATEGORIES, CATALOG_DRAG_TYPE, searchCatalog } from '@/lib/catalog';
+import { formatLength } from '@/lib/utils/units';
+
+/**
+ * The furniture catalog. Drag an entry onto the 2D plan or the 3D view to
+ * place it there, or click it and then click the plan.
+ */
+export default function FurnitureCatalog() {
+  const config = useFloorplanStore(state => state.config);
+  const editorMode = useFloorplanStore(state => state.editorMode);
+  const placingEntryId = useFloorplanStore(state => state.placingEntryId);
+  const setPlacingEntry = useFloorplanStore(state => state.setPlacingEntry);
+  const [query, setQuery] = useState('');
+  const [category, setCategory] = useState<string | null>(null);
+
+  const entries = useMemo(() => searchCatalog(query, category), [query, category]);
+  const placing = editorMode === EditorMode.PLACE_ITEM ? placingEntryId : null;
+
+  return (
+    <div className="space-y-2">
+      <input
+        type="search"
+        value={query}
+        placeholder="Search furniture"
+        onChange={e => setQuery(e.target.value)}
+        className="w-full px-2 py-1 text-sm border rounded"
+      />
+      <div className="flex flex-wrap gap-1">
+        <button
+          className={`px-2 py-0.5 text-xs rounded border ${category === null ? 'bg-blue-100 font-bold' : 'hover:bg-gray-100'}`}
+          onClick={() => setCategory(null)}
+        >
+          All
+        </button>
+        {CATALOG_CATEGORIES.map(({ id, name, icon }) => (
+          <button
+            key={id}
+            className={`px-2 py-0.5 text-xs rounded border ${category === id ? 'bg-blue-100 font-bold' : 'hover:bg-gray-100'}`}
+            onClick={() => setCategory(category === id ? null : id)}
+          >
+            {icon} {name}
+          </button>
+        ))}
+      </div>
+      <div className="max-h-64 overflow-y-auto space-y-1">
+        {entries.map(entry => (
+          <button
+            key={entry.id}
+            draggable
+            onDragStart={e => {
+              e.dataTransfer.setData(CATALOG_DRAG_TYPE, entry.id);
+              e.dataTransfer.effectAllowed = 'copy';
+            }}
+            onClick={() => setPlacingEntry(placing === entry.id ? null : entry.id)}
+            className={`w-full flex items-center gap-2 p-1 rounded text-left hover:bg-gray-100 ${placing === entry.id ? 'bg-blue-100' : ''}`}
+          >
+            <span
+              aria-hidden
+              className="shrink-0 w-8 h-8 bg-contain bg-center bg-no-repeat"
+              style={{ backgroundImage: `url(${entry.thumbnail})` }}
+            />
+            <span className="flex-1 min-w-0">
+              <span className="block text-sm truncate">{entry.name}</span>
+              <span className="block text-xs text-gray-500">
+                {formatLength(entry.dimensions.width, config)} × {formatLength(entry.dimensions.depth, config)}
+              </span>
+            </span>
+          </button>
+        ))}
+        {entries.length === 0 && <p className="text-xs text-gray-500">No furniture matches.</p>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,51 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { formatLength, LengthFormat, parseLength } from '@/lib/utils/units';
+
+interface LengthInputProps {
+  value: number | null; // cm; null when several values differ
+  format: LengthFormat;
+  onChange: (value: number) => void;
+  min?: number; // cm; smaller entries are rejected
+  placeholder?: string;
+  className?: string;
+}
+
+/**
+ * Text field for a length, shown in the user's units. Any supported units
+ * can be typed (3m 20cm, 10' 6 1/2"); the entry is applied on Enter or blur,
+ * and reverts if it isn't a valid length.
+ */
+export default function LengthInput({ value, format, onChange, min = 0, placeholder = 'Mixed', className }: LengthInputProps) {
+  const display = (cm: number | null) => (cm === null ? '' : formatLength(cm, format));
+  const [text, setText] = useState(() => display(value));
+
+  useEffect(() => {
+    setText(value === null ? '' : formatLength(value, format));
+  }, [value, format]);
+
+  const commit = () => {
+    // Leaving the field untouched must not write back the rounded display value
+    if (text === display(value)) return;
+    const parsed = parseLength(text, format);
+    if (parsed !== null && parsed >= min && parsed !== value) onChange(parsed);
+    // Show the stored value until the change comes back through `value`
+    setText(display(value));
+  };
+
+  return (
+    <input
+      type="text"
+      value={text}
+      placeholder={value === null ? placeholder : undefined}
+      onChange={e => setText(e.target.value)}
+      onBlur={commit}
+      onKeyDown={e => {
+        if (e.key === 'Enter') commit();
+        if (e.key === 'Escape') setText(display(value));
+      }}
+      className={className ?? 'w-full px-2 py-1 text-sm border rounded'}
+    />
+  );
+}
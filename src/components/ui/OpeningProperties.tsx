@@ -0,0 +1,111 @@
+'use client';
+
+import { Opening, OpeningType } from '@/types';
+import { useFloorplanStore } from '@/stores/floorplan-store';
+import { MathUtils } from '@/lib/utils/math';
+import { getWallOpenings } from '@/lib/utils/openings';
+import { LengthFormat } from '@/lib/utils/units';
+import LengthInput from './LengthInput';
+
+const MIN_OPENING_SIZE = 10; // cm, for width and height
+
+function OpeningFields({ opening, wallLength, format }: { opening: Opening; wallLength: number; format: LengthFormat }) {
+  const updateOpening = useFloorplanStore(state => state.updateOpening);
+  const removeOpening = useFloorplanStore(state => state.removeOpening);
+  const isDoor = opening.type === OpeningType.DOOR;
+
+  // Keep the opening on its wall
+  const setOffset = (offset: number) => {
+    updateOpening(opening.id, { offset: Math.max(0, Math.min(wallLength - opening.width, offset)) });
+  };
+  const setWidth = (value: number) => {
+    const width = Math.min(wallLength, value);
+    updateOpening(opening.id, { width, offset: Math.max(0, Math.min(wallLength - width, opening.offset)) });
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-xs font-medium text-gray-700">{isDoor ? 'Door' : 'Window'}</span>
+        <button className="text-xs text-red-600 hover:underline" onClick={() => removeOpening(opening.id)}>
+          Remove
+        </button>
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label className="block text-xs text-gray-600 mb-1">From start</label>
+          <LengthInput value={opening.offset} format={format} onChange={setOffset} />
+        </div>
+        <div>
+          <label className="block text-xs text-gray-600 mb-1">Width</label>
+          <LengthInput value={opening.width} format={format} min={MIN_OPENING_SIZE} onChange={setWidth} />
+        </div>
+        <div>
+          <label className="block text-xs text-gray-600 mb-1">Height</label>
+          <LengthInput
+            value={opening.height}
+            format={format}
+            min={MIN_OPENING_SIZE}
+            onChange={height => updateOpening(opening.id, { height })}
+          />
+        </div>
+        {!isDoor && (
+          <div>
+            <label className="block text-xs text-gray-600 mb-1">Sill</label>
+            <LengthInput
+              value={opening.sillHeight}
+              format={format}
+              onChange={sillHeight => updateOpening(opening.id, { sillHeight })}
+            />
+          </div>
+        )}
+      </div>
+      {isDoor && (
+        <div className="flex gap-2">
+          <button
+            className="flex-1 px-2 py-1 text-xs border rounded hover:bg-gray-50"
+            onClick={() => updateOpening(opening.id, { hinge: opening.hinge === 'start' ? 'end' : 'start' })}
+          >
+            Flip hinge
+          </button>
+          <button
+            className="flex-1 px-2 py-1 text-xs border rounded hover:bg-gray-50"
+            onClick={() => updateOpening(opening.id, { swing: opening.swing === 'front' ? 'back' : 'front' })}
+          >
+            Flip swing
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Properties of the doors and windows in the selected wall: where they sit,
+ * their size, and which way a door is hinged and swings. Shown when exactly
+ * one wall with openings is selected.
+ */
+export default function OpeningProperties() {
+  const config = useFloorplanStore(state => state.config);
+  const floorplan = useFloorplanStore(state => state.floorplan);
+  const selectedWallIds = useFloorplanStore(state => state.selection.walls);
+
+  const wall = selectedWallIds.length === 1 ? floorplan.walls[selectedWallIds[0]] : undefined;
+  const start = wall && floorplan.corners[wall.startCorner];
+  const end = wall && floorplan.corners[wall.endCorner];
+  if (!wall || !start || !end) return null;
+  const openings = getWallOpenings(wall.id, floorplan.openings);
+  if (openings.length === 0) return null;
+  const wallLength = MathUtils.distance(start, end);
+
+  return (
+    <div className="p-4 border-b">
+      <h3 className="text-sm font-semibold text-gray-700 mb-3">Doors &amp; Windows</h3>
+      <div className="space-y-4">
+        {openings.map(opening => (
+          <OpeningFields key={opening.id} opening={opening} wallLength={wallLength} format={config} />
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+'use client';
+
+import { EditorMode, FloorplanData } from '@/types';
+import { useFloorplanStore } from '@/stores/floorplan-store';
+import { useConflicts } from '@/lib/hooks/useConflicts';
+import { Conflict } from '@/lib/utils/collisions';
+
+function describeConflict(conflict: Conflict, floorplan: FloorplanData): string {
+  const name = floorplan.items[conflict.itemId]?.name ?? 'An item';
+  const other =
+    conflict.kind === 'wall' ? 'a wall' :
+    conflict.kind === 'door' ? 'a door' :
+    floorplan.items[conflict.otherId]?.name ?? 'another item';
+  if (conflict.clearance) return `${name} needs free space, but ${other} is in the way`;
+  return conflict.kind === 'door' ? `${name} blocks a door` : `${name} overlaps ${other}`;
+}
+
+/**
+ * Furniture that runs into walls, other furniture or doors, or lacks the
+ * clearance it needs. Click a problem to select the item.
+ */
+export default function ProblemsPanel() {
+  const floorplan = useFloorplanStore(state => state.floorplan);
+  const setSelection = useFloorplanStore(state => state.setSelection);
+  const setEditorMode = useFloorplanStore(state => state.setEditorMode);
+  const conflicts = useConflicts();
+
+  return (
+    <div className="p-4 border-b">
+      <h3 className="text-sm font-semibold text-gray-700 mb-2">
+        Problems{conflicts.length > 0 && ` (${conflicts.length})`}
+      </h3>
+      {conflicts.length === 0 ? (
+        <p className="text-xs text-gray-500">No problems found.</p>
+      ) : (
+        <ul className="max-h-40 overflow-y-auto space-y-1">
+          {conflicts.map(conflict => (
+            <li key={`${conflict.kind}-${conflict.itemId}-${conflict.otherId}-${conflict.clearance}`}>
+              <button
+                className="w-full text-left text-xs text-red-600 p-1 rounded hover:bg-red-50"
+                onClick={() => {
+                  setEditorMode(EditorMode.MOVE);
+                  setSelection({ items: [conflict.itemId] });
+                }}
+              >
+                {describeConflict(conflict, floorplan)}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { RoomType } from '@/types';
+import { useFloorplanStore } from '@/stores/floorplan-store';
+import { DEFAULT_TEXTURE_SCALE } from '@/lib/config';
+import { formatLength } from '@/lib/utils/units';
+import { getCeilingHeight, ROOM_TYPES } from '@/lib/utils/rooms';
+import LengthInput from './LengthInput';
+
+const MIN_CEILING_HEIGHT = 100; // cm
+const MIN_TEXTURE_SCALE = 1; // cm
+
+// A text field applied on Enter or blur, like LengthInput
+function CommitInput({ value, placeholder, onCommit }: { value: string; placeholder?: string; onCommit: (value: string) => void }) {
+  const [text, setText] = useState(value);
+  useEffect(() => setText(value), [value]);
+
+  const commit = () => {
+    if (text.trim() !== value) onCommit(text.trim());
+  };
+
+  return (
+    <input
+      type="text"
+      value={text}
+      placeholder={placeholder}
+      onChange={e => setText(e.target.value)}
+      onBlur={commit}
+      onKeyDown={e => {
+        if (e.key === 'Enter') commit();
+        if (e.key === 'Escape') setText(value);
+      }}
+      className="w-full px-2 py-1 text-sm border rounded"
+    />
+  );
+}
+
+/**
+ * Properties of the selected room: its name, type, floor finish and ceiling
+ * height. Shown when exactly one room is selected.
+ */
+export default function RoomProperties() {
+  const config = useFloorplanStore(state => state.config);
+  const floorplan = useFloorplanStore(state => state.floorplan);
+  const selectedRoomIds = useFloorplanStore(state => state.selection.rooms);
+  const updateRoom = useFloorplanStore(state => state.updateRoom);
+
+  const room = selectedRoomIds.length === 1 ? floorplan.rooms[selectedRoomIds[0]] : undefined;
+  if (!room) return null;
+  const texture = room.floorTexture;
+  // Without its own ceiling height the room takes the walls'
+  const wallCeiling = getCeilingHeight({ ...room, ceilingHeight: undefined }, floorplan);
+
+  return (
+    <div className="p-4 border-b">
+      <h3 className="text-sm font-semibold text-gray-700 mb-3">Room</h3>
+      <div className="space-y-3">
+        <div>
+          <label className="block text-xs text-gray-600 mb-1">Name</label>
+          <CommitInput value={room.name ?? ''} placeholder="Unnamed" onCommit={name => updateRoom(room.id, { name: name || undefined })} />
+        </div>
+        <div>
+          <label className="block text-xs text-gray-600 mb-1">Type</label>
+          <select
+            value={room.type ?? ''}
+            onChange={e => updateRoom(room.id, { type: (e.target.value as RoomType) || undefined })}
+            className="w-full px-2 py-1 text-sm border rounded"
+          >
+            <option value="">None</option>
+            {(Object.keys(ROOM_TYPES) as RoomType[]).map(type => (
+              <option key={type} value={type}>{ROOM_TYPES[type].label}</option>
+            ))}
+          </select>
+        </div>
+        <div className="space-y-1">
+          <label className="block text-xs text-gray-600">Floor finish</label>
+          <CommitInput
+            value={texture?.url ?? ''}
+            placeholder="Texture URL (none)"
+            onCommit={url => updateRoom(room.id, {
+              floorTexture: url ? { scale: DEFAULT_TEXTURE_SCALE, ...texture, url } : undefined,
+            })}
+          />
+          {texture && (
+            <div className="flex items-center gap-2">
+              <label className="flex items-center gap-1 text-xs text-gray-600 whitespace-nowrap">
+                <input
+                  type="checkbox"
+                  checked={!!texture.stretch}
+                  onChange={e => updateRoom(room.id, { floorTexture: { ...texture, stretch: e.target.checked } })}
+                />
+                Stretch
+              </label>
+              {!texture.stretch && (
+                <LengthInput
+                  value={texture.scale}
+                  format={config}
+                  min={MIN_TEXTURE_SCALE}
+                  onChange={scale => updateRoom(room.id, { floorTexture: { ...texture, scale } })}
+                />
+              )}
+            </div>
+          )}
+        </div>
+        <div>
+          <label className="block text-xs text-gray-600 mb-1">Ceiling height</label>
+          <div className="flex items-center gap-2">
+            <LengthInput
+              value={room.ceilingHeight ?? null}
+              format={config}
+              min={MIN_CEILING_HEIGHT}
+              placeholder={`${formatLength(wallCeiling, config)} (walls)`}
+              onChange={ceilingHeight => updateRoom(room.id, { ceilingHeight })}
+            />
+            {room.ceilingHeight !== undefined && (
+              <button
+                className="text-xs text-gray-600 hover:underline whitespace-nowrap"
+                onClick={() => updateRoom(room.id, { ceilingHeight: undefined })}
+              >
+                Use walls
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,25 @@
 'use client';
 
-import { EditorMode } from '@/types';
+import { useMemo, useState } from 'react';
+import { AppConfig, EditorMode, LengthUnit, ObjectSnapKind } from '@/types';
 import { useFloorplanStore } from '@/stores/floorplan-store';
+import { ANGLE_SNAP_STEPS } from '@/lib/config';
+import { formatArea, getPrecisionOptions, LENGTH_UNITS } from '@/lib/utils/units';
+import { GeometryUtils } from '@/lib/utils/math';
+import { getRoomInnerOutline } from '@/lib/utils/rooms';
+import FurnitureCatalog from './FurnitureCatalog';
+import LengthInput from './LengthInput';
+import OpeningProperties from './OpeningProperties';
+import ProblemsPanel from './ProblemsPanel';
+import RoomProperties from './RoomProperties';
+import WallProperties from './WallProperties';
+
+const OBJECT_SNAP_LABELS: Record<ObjectSnapKind, string> = {
+  midpoint: 'Midpoint',
+  nearest: 'Point on wall',
+  extension: 'Extension',
+  perpendicular: 'Perpendicular',
+};
 
 export default function Sidebar() {
   const {
@@ -9,22 +27,25 @@ export default function Sidebar() {
     setEditorMode,
     config,
     floorplan,
-    corners,
-    walls,
-    rooms,
-    items,
     setViewMode,
     viewMode,
     setActiveCorner,
     setActiveWall,
-    // ...other actions if needed
-    // For stats, use computed getters if available
+    snapSettings,
+    setSnapSettings,
+    setConfig,
   } = useFloorplanStore();
 
-  // Property change handlers
-  const handleConfigChange = (key: keyof typeof config, value: number) => {
-    // Update config in store (if implemented)
-    // setConfig({ ...config, [key]: value });
+  // Net floor area of all rooms, inside their walls
+  const floorArea = useMemo(
+    () => Object.values(floorplan.rooms).reduce((total, room) => total + GeometryUtils.polygonArea(getRoomInnerOutline(room, floorplan)), 0),
+    [floorplan]
+  );
+
+  // Problems with the last settings change, which was then not applied
+  const [configIssues, setConfigIssues] = useState<string[]>([]);
+  const handleConfigChange = (changes: Partial<AppConfig>) => {
+    setConfigIssues(setConfig(changes).map(issue => `${issue.path}: ${issue.message}`));
   };
 
   return (
@@ -56,52 +77,164 @@ export default function Sidebar() {
           >
             🗑️ Delete
           </button>
+          <button
+            className={`w-full text-left p-2 rounded hover:bg-gray-100 ${editorMode === EditorMode.PLACE_DOOR ? 'bg-blue-100 font-bold' : ''}`}
+            onClick={() => setEditorMode(EditorMode.PLACE_DOOR)}
+          >
+            🚪 Add Door
+          </button>
+          <button
+            className={`w-full text-left p-2 rounded hover:bg-gray-100 ${editorMode === EditorMode.PLACE_WINDOW ? 'bg-blue-100 font-bold' : ''}`}
+            onClick={() => setEditorMode(EditorMode.PLACE_WINDOW)}
+          >
+            🪟 Add Window
+          </button>
         </div>
       </div>
 
-      {/* Furniture categories (static for now) */}
+      {/* Snapping */}
       <div className="p-4 border-b">
-        <h3 className="text-sm font-semibold text-gray-700 mb-3">Furniture</h3>
-        <div className="space-y-2">
-          <button className="w-full text-left p-2 rounded hover:bg-gray-100">🪑 Chairs</button>
-          <button className="w-full text-left p-2 rounded hover:bg-gray-100">🛏️ Beds</button>
-          <button className="w-full text-left p-2 rounded hover:bg-gray-100">🪜 Tables</button>
-          <button className="w-full text-left p-2 rounded hover:bg-gray-100">📚 Storage</button>
-          <button className="w-full text-left p-2 rounded hover:bg-gray-100">💡 Lighting</button>
+        <h3 className="text-sm font-semibold text-gray-700 mb-3">Snapping</h3>
+        <div className="space-y-2 text-sm text-gray-700">
+          <div>
+            <label className="block text-xs text-gray-600 mb-1">Angle</label>
+            <select
+              value={snapSettings.angleStep}
+              onChange={e => setSnapSettings({ angleStep: Number(e.target.value) })}
+              className="w-full px-2 py-1 text-sm border rounded"
+            >
+              <option value={0}>Off</option>
+              {ANGLE_SNAP_STEPS.map(step => (
+                <option key={step} value={step}>{step}°</option>
+              ))}
+            </select>
+          </div>
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={snapSettings.alignmentGuides}
+              onChange={e => setSnapSettings({ alignmentGuides: e.target.checked })}
+            />
+            Alignment guides
+          </label>
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={snapSettings.grid}
+              onChange={e => setSnapSettings({ grid: e.target.checked })}
+            />
+            Grid
+          </label>
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={snapSettings.walls}
+              onChange={e => setSnapSettings({ walls: e.target.checked })}
+            />
+            Furniture against walls
+          </label>
+          <div>
+            <label className="block text-xs text-gray-600 mb-1">Object snaps</label>
+            {(Object.keys(OBJECT_SNAP_LABELS) as ObjectSnapKind[]).map(kind => (
+              <label key={kind} className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={snapSettings.objectSnaps[kind]}
+                  onChange={e => setSnapSettings({ objectSnaps: { ...snapSettings.objectSnaps, [kind]: e.target.checked } })}
+                />
+                {OBJECT_SNAP_LABELS[kind]}
+              </label>
+            ))}
+          </div>
+          <p className="text-xs text-gray-500">Hold Shift to place freely.</p>
         </div>
       </div>
 
-      {/* Properties panel */}
+      {/* Furniture catalog */}
+      <div className="p-4 border-b">
+        <h3 className="text-sm font-semibold text-gray-700 mb-3">Furniture</h3>
+        <FurnitureCatalog />
+      </div>
+
+      {/* Furniture conflicts */}
+      <ProblemsPanel />
+
+      {/* Selected walls */}
+      <WallProperties />
+
+      {/* Doors and windows in the selected wall */}
+      <OpeningProperties />
+
+      {/* Selected room */}
+      <RoomProperties />
+
+      {/* Settings; new walls, the grid and snapping use these */}
       <div className="p-4">
-        <h3 className="text-sm font-semibold text-gray-700 mb-3">Properties</h3>
+        <h3 className="text-sm font-semibold text-gray-700 mb-3">Settings</h3>
         <div className="space-y-3">
+          <div>
+            <label className="block text-xs text-gray-600 mb-1">Units</label>
+            <select
+              value={config.units}
+              onChange={e => {
+                const units = e.target.value as LengthUnit;
+                const options = getPrecisionOptions(units);
+                handleConfigChange({ units, precision: Math.min(config.precision, options[options.length - 1].value) });
+              }}
+              className="w-full px-2 py-1 text-sm border rounded"
+            >
+              {(Object.keys(LENGTH_UNITS) as LengthUnit[]).map(units => (
+                <option key={units} value={units}>{LENGTH_UNITS[units]}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs text-gray-600 mb-1">Precision</label>
+            <select
+              value={config.precision}
+              onChange={e => handleConfigChange({ precision: Number(e.target.value) })}
+              className="w-full px-2 py-1 text-sm border rounded"
+            >
+              {getPrecisionOptions(config.units).map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </div>
           <div>
             <label className="block text-xs text-gray-600 mb-1">Wall Height</label>
-            <input
-              type="number"
+            <LengthInput
               value={config.wallHeight}
-              onChange={e => handleConfigChange('wallHeight', Number(e.target.value))}
-              className="w-full px-2 py-1 text-sm border rounded"
+              format={config}
+              onChange={value => handleConfigChange({ wallHeight: value })}
             />
           </div>
           <div>
             <label className="block text-xs text-gray-600 mb-1">Wall Thickness</label>
-            <input
-              type="number"
+            <LengthInput
               value={config.wallThickness}
-              onChange={e => handleConfigChange('wallThickness', Number(e.target.value))}
-              className="w-full px-2 py-1 text-sm border rounded"
+              format={config}
+              onChange={value => handleConfigChange({ wallThickness: value })}
             />
           </div>
           <div>
             <label className="block text-xs text-gray-600 mb-1">Grid Size</label>
-            <input
-              type="number"
+            <LengthInput
               value={config.gridSize}
-              onChange={e => handleConfigChange('gridSize', Number(e.target.value))}
-              className="w-full px-2 py-1 text-sm border rounded"
+              format={config}
+              onChange={value => handleConfigChange({ gridSize: value })}
+            />
+          </div>
+          <div>
+            <label className="block text-xs text-gray-600 mb-1">Snap Distance</label>
+            <LengthInput
+              value={config.snapTolerance}
+              format={config}
+              onChange={value => handleConfigChange({ snapTolerance: value })}
             />
           </div>
+          {configIssues.map(issue => (
+            <p key={issue} className="text-xs text-red-600">{issue}</p>
+          ))}
         </div>
       </div>
 
@@ -109,9 +242,10 @@ export default function Sidebar() {
       <div className="p-4 bg-gray-50 mt-auto">
         <h3 className="text-sm font-semibold text-gray-700 mb-2">Stats</h3>
         <div className="text-xs text-gray-600 space-y-1">
-          <div>Rooms: {rooms?.length ?? 0}</div>
-          <div>Walls: {walls?.length ?? 0}</div>
-          <div>Items: {items?.length ?? 0}</div>
+          <div>Rooms: {Object.keys(floorplan.rooms).length}</div>
+          <div>Floor area: {formatArea(floorArea, config)}</div>
+          <div>Walls: {Object.keys(floorplan.walls).length}</div>
+          <div>Items: {Object.keys(floorplan.items).length}</div>
         </div>
       </div>
     </div>
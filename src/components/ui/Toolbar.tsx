@@ -1,11 +1,124 @@
 'use client';
 
-
+import { useRef, useState } from 'react';
 import { ViewMode } from '@/types';
 import { useFloorplanStore } from '@/stores/floorplan-store';
+import { downloadFile, readFileAsText } from '@/lib/utils';
+import { PROJECT_FILE_EXTENSION } from '@/lib/project';
+import { BLUEPRINT3D_FILE_EXTENSION, exportBlueprint3d, importBlueprint3d } from '@/lib/io/blueprint3d';
+import { exportSvg } from '@/lib/io/svg';
+import { exportPng, PAPER_SIZES, PNG_DPI_OPTIONS } from '@/lib/io/png';
+import { exportGltf, GLTF_FILE_EXTENSIONS } from '@/lib/io/gltf';
+import { DXF_FILE_EXTENSION, exportDxf, importDxf } from '@/lib/io/dxf';
+
+// Drawing scales offered for vector export (1:n)
+const DRAWING_SCALES = [20, 50, 100, 200];
 
 export default function Toolbar() {
-  const { viewMode, setViewMode } = useFloorplanStore();
+  const {
+    viewMode,
+    setViewMode,
+    undo,
+    redo,
+    history,
+    metadata,
+    config,
+    floorplan,
+    saveFloorplan,
+    loadFloorplan,
+    importFloorplan,
+    reset,
+    activeWall,
+    activeCorner,
+  } = useFloorplanStore();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [drawingScale, setDrawingScale] = useState(50);
+  const [pngDpi, setPngDpi] = useState(150);
+  const [paperName, setPaperName] = useState(PAPER_SIZES[0].name);
+  const [pngShowGrid, setPngShowGrid] = useState(false);
+  const [pngShowHover, setPngShowHover] = useState(false);
+  const [pngShowCorners, setPngShowCorners] = useState(false);
+  const [modelFormat, setModelFormat] = useState<keyof typeof GLTF_FILE_EXTENSIONS>('glb');
+  const [isExportingModel, setIsExportingModel] = useState(false);
+
+  const handleNew = () => {
+    if (history.past.length > 0 && !window.confirm('Discard the current design and start a new one?')) return;
+    reset();
+  };
+
+  const handleSave = () => {
+    downloadFile(saveFloorplan(), `${metadata.name}${PROJECT_FILE_EXTENSION}`);
+  };
+
+  const handleOpen = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const data = await readFileAsText(file);
+      const lowerName = file.name.toLowerCase();
+      if (lowerName.endsWith(BLUEPRINT3D_FILE_EXTENSION)) {
+        importFloorplan(importBlueprint3d(data, config), file.name.slice(0, -BLUEPRINT3D_FILE_EXTENSION.length));
+      } else if (lowerName.endsWith(DXF_FILE_EXTENSION)) {
+        importFloorplan(importDxf(data, config), file.name.slice(0, -DXF_FILE_EXTENSION.length));
+      } else {
+        loadFloorplan(data);
+      }
+    } catch (error) {
+      console.error('Failed to load floorplan:', error);
+      window.alert(`Could not open ${file.name}\n\n${(error as Error).message}`);
+    }
+  };
+
+  const handleExportPng = async () => {
+    try {
+      const png = await exportPng(floorplan, {
+        dpi: pngDpi,
+        paper: PAPER_SIZES.find(paper => paper.name === paperName),
+        showGrid: pngShowGrid,
+        gridSpacing: config.gridSize,
+        showHover: pngShowHover,
+        hoverWallId: activeWall?.id,
+        hoverCornerId: activeCorner?.id,
+        showCorners: pngShowCorners,
+        lengthFormat: config,
+      });
+      if (!png) {
+        window.alert('There is nothing to export yet');
+        return;
+      }
+      downloadFile(png, `${metadata.name}.png`);
+    } catch (error) {
+      console.error('Failed to export PNG:', error);
+      window.alert(`Could not export PNG\n\n${(error as Error).message}`);
+    }
+  };
+
+  const handleExportSvg = () => {
+    downloadFile(exportSvg(floorplan, { scale: drawingScale, lengthFormat: config }), `${metadata.name}.svg`, 'image/svg+xml');
+  };
+
+  const handleExport3d = async () => {
+    setIsExportingModel(true);
+    try {
+      const model = await exportGltf(floorplan, { binary: modelFormat === 'glb', name: metadata.name });
+      downloadFile(model, `${metadata.name}${GLTF_FILE_EXTENSIONS[modelFormat]}`);
+    } catch (error) {
+      console.error('Failed to export 3D model:', error);
+      window.alert(`Could not export the 3D model\n\n${(error as Error).message}`);
+    } finally {
+      setIsExportingModel(false);
+    }
+  };
+
+  const handleExportDxf = () => {
+    downloadFile(exportDxf(floorplan, { lengthFormat: config }), `${metadata.name}${DXF_FILE_EXTENSION}`, 'application/dxf');
+  };
+
+  const handleExportBlueprint3d = () => {
+    downloadFile(exportBlueprint3d(floorplan), `${metadata.name}${BLUEPRINT3D_FILE_EXTENSION}`);
+  };
+
   return (
     <div className="toolbar">
       <div className="flex items-center gap-4">
@@ -34,28 +147,121 @@ export default function Toolbar() {
 
         <div className="h-6 w-px bg-gray-300" />
 
+        {/* History */}
+        <div className="flex items-center gap-2">
+          <button
+            className="tool-button disabled:opacity-50 disabled:cursor-not-allowed"
+            onClick={undo}
+            disabled={history.past.length === 0}
+            title="Undo (Ctrl+Z)"
+          >
+            Undo
+          </button>
+          <button
+            className="tool-button disabled:opacity-50 disabled:cursor-not-allowed"
+            onClick={redo}
+            disabled={history.future.length === 0}
+            title="Redo (Ctrl+Shift+Z)"
+          >
+            Redo
+          </button>
+        </div>
+
+        <div className="h-6 w-px bg-gray-300" />
+
         {/* File operations */}
         <div className="flex items-center gap-2">
-          <button className="tool-button">
+          <button className="tool-button" onClick={handleNew}>
             New
           </button>
-          <button className="tool-button">
+          <button className="tool-button" onClick={() => fileInputRef.current?.click()}>
             Open
           </button>
-          <button className="tool-button">
+          <button className="tool-button" onClick={handleSave}>
             Save
           </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={`.json,application/json,${BLUEPRINT3D_FILE_EXTENSION},${DXF_FILE_EXTENSION}`}
+            className="hidden"
+            onChange={handleOpen}
+          />
         </div>
 
         <div className="h-6 w-px bg-gray-300" />
 
         {/* Export options */}
         <div className="flex items-center gap-2">
-          <button className="tool-button">
+          <button className="tool-button" onClick={handleExportPng}>
             Export PNG
           </button>
-          <button className="tool-button">
-            Export 3D
+          <select
+            className="tool-button"
+            value={paperName}
+            onChange={e => setPaperName(e.target.value)}
+            title="Paper size"
+          >
+            {PAPER_SIZES.map(paper => (
+              <option key={paper.name} value={paper.name}>{paper.name}</option>
+            ))}
+          </select>
+          <select
+            className="tool-button"
+            value={pngDpi}
+            onChange={e => setPngDpi(Number(e.target.value))}
+            title="Resolution"
+          >
+            {PNG_DPI_OPTIONS.map(dpi => (
+              <option key={dpi} value={dpi}>{dpi} dpi</option>
+            ))}
+          </select>
+          <label className="flex items-center gap-1 text-sm text-gray-700" title="Include the grid in the PNG">
+            <input type="checkbox" checked={pngShowGrid} onChange={e => setPngShowGrid(e.target.checked)} />
+            Grid
+          </label>
+          <label className="flex items-center gap-1 text-sm text-gray-700" title="Keep hover colours in the PNG">
+            <input type="checkbox" checked={pngShowHover} onChange={e => setPngShowHover(e.target.checked)} />
+            Hover
+          </label>
+          <label className="flex items-center gap-1 text-sm text-gray-700" title="Draw corner handles in the PNG">
+            <input type="checkbox" checked={pngShowCorners} onChange={e => setPngShowCorners(e.target.checked)} />
+            Corners
+          </label>
+          <select
+            className="tool-button"
+            value={drawingScale}
+            onChange={e => setDrawingScale(Number(e.target.value))}
+            title="Drawing scale"
+          >
+            {DRAWING_SCALES.map(scale => (
+              <option key={scale} value={scale}>1:{scale}</option>
+            ))}
+          </select>
+          <button className="tool-button" onClick={handleExportSvg}>
+            Export SVG
+          </button>
+          <button className="tool-button" onClick={handleExportDxf}>
+            Export DXF
+          </button>
+          <button
+            className="tool-button disabled:opacity-50 disabled:cursor-not-allowed"
+            onClick={handleExport3d}
+            disabled={isExportingModel}
+          >
+            {isExportingModel ? 'Exporting…' : 'Export 3D'}
+          </button>
+          <select
+            className="tool-button"
+            value={modelFormat}
+            onChange={e => setModelFormat(e.target.value as keyof typeof GLTF_FILE_EXTENSIONS)}
+            title="3D format"
+          >
+            <option value="glb">GLB</option>
+            <option value="gltf">glTF</option>
+          </select>
+          <button className="tool-button" onClick={handleExportBlueprint3d}>
+            Export blueprint3d
           </button>
         </div>
       </div>
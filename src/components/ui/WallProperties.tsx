@@ -0,0 +1,157 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Texture, Wall } from '@/types';
+import { useFloorplanStore } from '@/stores/floorplan-store';
+import { DEFAULT_TEXTURE_SCALE } from '@/lib/config';
+import { MathUtils } from '@/lib/utils/math';
+import LengthInput from './LengthInput';
+
+type WallSide = 'frontTexture' | 'backTexture';
+
+const MIN_WALL_LENGTH = 10; // cm
+const MIN_WALL_SIZE = 1; // cm, for thickness and height
+
+// The value every wall shares, or null when they differ
+function common<T>(values: T[]): T | null {
+  return values.length > 0 && values.every(value => value === values[0]) ? values[0] : null;
+}
+
+function TextureFields({ label, side, walls }: { label: string; side: WallSide; walls: Wall[] }) {
+  const config = useFloorplanStore(state => state.config);
+  const updateWalls = useFloorplanStore(state => state.updateWalls);
+  const beginTransaction = useFloorplanStore(state => state.beginTransaction);
+  const commitTransaction = useFloorplanStore(state => state.commitTransaction);
+
+  const textures = walls.map(wall => wall[side]);
+  const textured = textures.filter((texture): texture is Texture => !!texture);
+  const url = common(textures.map(texture => texture?.url ?? ''));
+  const [urlText, setUrlText] = useState(url ?? '');
+  useEffect(() => setUrlText(url ?? ''), [url]);
+
+  // Change the texture of every selected wall that has one, as one undo step
+  const updateTextures = (changes: Partial<Texture>) => {
+    beginTransaction();
+    for (const wall of walls) {
+      const texture = wall[side];
+      if (texture) updateWalls([wall.id], { [side]: { ...texture, ...changes } });
+    }
+    commitTransaction();
+  };
+
+  const commitUrl = () => {
+    const next = urlText.trim();
+    if (next === (url ?? '')) return;
+    if (!next) {
+      updateWalls(walls.map(wall => wall.id), { [side]: undefined });
+      return;
+    }
+    beginTransaction();
+    for (const wall of walls) {
+      const texture = wall[side];
+      updateWalls([wall.id], { [side]: { scale: DEFAULT_TEXTURE_SCALE, ...texture, url: next } });
+    }
+    commitTransaction();
+  };
+
+  const stretch = common(textured.map(texture => !!texture.stretch));
+
+  return (
+    <div className="space-y-1">
+      <label className="block text-xs text-gray-600">{label}</label>
+      <input
+        type="text"
+        value={urlText}
+        placeholder={url === null ? 'Mixed' : 'Texture URL (none)'}
+        onChange={e => setUrlText(e.target.value)}
+        onBlur={commitUrl}
+        onKeyDown={e => { if (e.key === 'Enter') commitUrl(); }}
+        className="w-full px-2 py-1 text-sm border rounded"
+      />
+      {textured.length > 0 && (
+        <div className="flex items-center gap-2">
+          <label className="flex items-center gap-1 text-xs text-gray-600 whitespace-nowrap">
+            <input
+              type="checkbox"
+              checked={stretch ?? false}
+              onChange={e => updateTextures({ stretch: e.target.checked })}
+            />
+            Stretch
+          </label>
+          {!stretch && (
+            <LengthInput
+              value={common(textured.map(texture => texture.scale))}
+              format={config}
+              min={MIN_WALL_SIZE}
+              onChange={scale => updateTextures({ scale })}
+            />
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Properties of the selected walls. Each field shows the value the walls
+ * share, or is blank when they differ, and an edit applies to all of them.
+ */
+export default function WallProperties() {
+  const config = useFloorplanStore(state => state.config);
+  const floorplan = useFloorplanStore(state => state.floorplan);
+  const selectedWallIds = useFloorplanStore(state => state.selection.walls);
+  const updateWalls = useFloorplanStore(state => state.updateWalls);
+  const setWallLength = useFloorplanStore(state => state.setWallLength);
+
+  const walls = selectedWallIds.map(id => floorplan.walls[id]).filter((wall): wall is Wall => !!wall);
+  if (walls.length === 0) return null;
+  const ids = walls.map(wall => wall.id);
+
+  // Lengths are compared as shown, so walls that only differ by a rounding
+  // error still count as the same length
+  const lengths = walls.map(wall => {
+    const start = floorplan.corners[wall.startCorner];
+    const end = floorplan.corners[wall.endCorner];
+    return start && end ? MathUtils.distance(start, end) : 0;
+  });
+  const length = common(lengths.map(value => Math.round(value * 100) / 100));
+
+  return (
+    <div className="p-4 border-b">
+      <h3 className="text-sm font-semibold text-gray-700 mb-3">
+        {walls.length === 1 ? 'Wall' : `${walls.length} Walls`}
+      </h3>
+      <div className="space-y-3">
+        <div>
+          <label className="block text-xs text-gray-600 mb-1">Length</label>
+          <LengthInput
+            value={length}
+            format={config}
+            min={MIN_WALL_LENGTH}
+            onChange={value => setWallLength(ids, value)}
+          />
+        </div>
+        <div>
+          <label className="block text-xs text-gray-600 mb-1">Thickness</label>
+          <LengthInput
+            value={common(walls.map(wall => wall.thickness))}
+            format={config}
+            min={MIN_WALL_SIZE}
+            onChange={thickness => updateWalls(ids, { thickness })}
+          />
+        </div>
+        <div>
+          <label className="block text-xs text-gray-600 mb-1">Height</label>
+          <LengthInput
+            value={common(walls.map(wall => wall.height))}
+            format={config}
+            min={MIN_WALL_SIZE}
+            onChange={height => updateWalls(ids, { height })}
+          />
+        </div>
+        <TextureFields label="Front finish" side="frontTexture" walls={walls} />
+        <TextureFields label="Back finish" side="backTexture" walls={walls} />
+      </div>
+    </div>
+  );
+}
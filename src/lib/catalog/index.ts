@@ -0,0 +1,80 @@
+import { FloorplanData, Item3D, ItemClearance, ItemDimensions, Point2D } from '@/types';
+import { findRoomAt } from '@/lib/utils/rooms';
+import manifest from './catalog.json';
+
+/**
+ * The furniture catalog: the items that can be placed, read from the local
+ * manifest in catalog.json. Thumbnails are served from public/catalog. No
+ * models ship with the app, so entries have no modelUrl and their items are
+ * shown as boxes of their dimensions; an entry can name a glTF model (e.g.
+ * under public/catalog/models) to use instead.
+ */
+
+export interface CatalogCategory {
+  id: string;
+  name: string;
+  icon: string;
+}
+
+export interface CatalogEntry {
+  id: string;
+  name: string;
+  category: string; // CatalogCategory id
+  itemType: string; // as in ItemMetadata: floor, wall, wall_floor...
+  resizable: boolean;
+  dimensions: ItemDimensions;
+  clearance?: ItemClearance;
+  elevation?: number; // cm above the floor, for wall-mounted items
+  thumbnail: string;
+  modelUrl?: string; // glTF model; without one the item is a box
+  tags: string[]; // extra words search matches
+}
+
+// Data transfer type of a catalog entry dragged onto a view; the data is the
+// entry's id
+export const CATALOG_DRAG_TYPE = 'application/x-home3d-catalog-entry';
+
+export const CATALOG_CATEGORIES: CatalogCategory[] = manifest.categories;
+export const CATALOG_ENTRIES: CatalogEntry[] = manifest.items;
+
+export function getCatalogEntry(id: string): CatalogEntry | null {
+  return CATALOG_ENTRIES.find(entry => entry.id === id) ?? null;
+}
+
+/**
+ * Find the entries in a category (or all categories) whose name, category or
+ * tags contain every word of the query, ignoring case
+ */
+export function searchCatalog(query: string, category?: string | null): CatalogEntry[] {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  return CATALOG_ENTRIES.filter(entry => {
+    if (category && entry.category !== category) return false;
+    const text = [entry.name, entry.category, ...entry.tags].join(' ').toLowerCase();
+    return words.every(word => text.includes(word));
+  });
+}
+
+/**
+ * Create an item from a catalog entry at a plan point, standing on the floor
+ * or, if wall-mounted, at its elevation, in the room there if any
+ */
+export function createCatalogItem(entry: CatalogEntry, point: Point2D, floorplan: FloorplanData): Omit<Item3D, 'id'> {
+  const room = findRoomAt(floorplan, point);
+  return {
+    name: entry.name,
+    modelUrl: entry.modelUrl ?? '',
+    position: { x: point.x, y: (entry.elevation ?? 0) + entry.dimensions.height / 2, z: point.y },
+    rotation: { x: 0, y: 0, z: 0 },
+    scale: { x: 1, y: 1, z: 1 },
+    dimensions: { ...entry.dimensions },
+    ...(room && { roomId: room.id }),
+    metadata: {
+      itemName: entry.name,
+      itemType: entry.itemType,
+      resizable: entry.resizable,
+      category: entry.category,
+      ...(entry.clearance && { clearance: { ...entry.clearance } }),
+      ...(entry.elevation !== undefined && { elevation: entry.elevation }),
+    },
+  };
+}
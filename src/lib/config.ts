@@ -0,0 +1,33 @@
+import { AppConfig, ItemDimensions, SnapSettings } from '@/types';
+
+export const DEFAULT_CONFIG: AppConfig = {
+  wallHeight: 250,
+  wallThickness: 10,
+  gridSize: 20,
+  snapTolerance: 15,
+  units: 'ft-in',
+  precision: 0,
+};
+
+export const DEFAULT_SNAP_SETTINGS: SnapSettings = {
+  angleStep: 15,
+  alignmentGuides: true,
+  grid: true,
+  walls: true,
+  objectSnaps: {
+    midpoint: true,
+    nearest: true,
+    extension: true,
+    perpendicular: true,
+  },
+};
+
+// Footprint assumed for items whose model size is unknown, e.g. imported
+// from blueprint3d, which reads sizes from the loaded models
+export const DEFAULT_ITEM_DIMENSIONS: ItemDimensions = { width: 50, depth: 50, height: 50 };
+
+// Angle steps offered in the UI, in degrees
+export const ANGLE_SNAP_STEPS = [15, 45, 90];
+
+// Size one repeat of a texture newly applied to a surface covers, in cm
+export const DEFAULT_TEXTURE_SCALE = 100;
@@ -0,0 +1,22 @@
+import { useMemo } from 'react';
+import { FloorplanData } from '@/types';
+import { useFloorplanStore } from '@/stores/floorplan-store';
+import { Conflict, findConflicts } from '@/lib/utils/collisions';
+
+// The last floorplan checked, shared by every view so each edit is checked
+// once however many views show the conflicts
+let lastChecked: { floorplan: FloorplanData; conflicts: Conflict[] } | null = null;
+
+/**
+ * The furniture conflicts in the store's floorplan, rechecked on each edit
+ */
+export function useConflicts(): Conflict[] {
+  const floorplan = useFloorplanStore(state => state.floorplan);
+
+  return useMemo(() => {
+    if (lastChecked?.floorplan !== floorplan) {
+      lastChecked = { floorplan, conflicts: findConflicts(floorplan) };
+    }
+    return lastChecked.conflicts;
+  }, [floorplan]);
+}
@@ -1,12 +1,14 @@
 import { useState, useCallback } from 'react';
-import { Corner, EditorMode } from '@/types';
-import { snapToGrid } from '@/lib/utils/math';
+import { Corner, EditorMode, SnapSettings } from '@/types';
+import { snapPoint, SnapGuide } from '@/lib/utils/snapping';
 
 interface UseDrawingStateProps {
   editorMode: EditorMode;
   viewportCmPerPixel: number;
   mouseWorldX: number;
   mouseWorldY: number;
+  corners: Corner[];
+  snapSettings: SnapSettings;
   SNAP_TOLERANCE: number;
   GRID_SPACING: number;
 }
@@ -16,6 +18,8 @@ export function useDrawingState({
   viewportCmPerPixel,
   mouseWorldX,
   mouseWorldY,
+  corners,
+  snapSettings,
   SNAP_TOLERANCE,
   GRID_SPACING
 }: UseDrawingStateProps) {
@@ -23,31 +27,35 @@ export function useDrawingState({
     lastNode: Corner | null;
     targetX: number;
     targetY: number;
+    guides: SnapGuide[];
   }>({
     lastNode: null,
     targetX: 0,
-    targetY: 0
+    targetY: 0,
+    guides: []
   });
 
-  // Update drawing target with snapping
-  const updateTarget = useCallback(() => {
-    let targetX = mouseWorldX;
-    let targetY = mouseWorldY;
-    if (editorMode === EditorMode.DRAW && drawingState.lastNode) {
-      if (Math.abs(mouseWorldX - drawingState.lastNode.x) < SNAP_TOLERANCE) {
-        targetX = drawingState.lastNode.x;
-      }
-      if (Math.abs(mouseWorldY - drawingState.lastNode.y) < SNAP_TOLERANCE) {
-        targetY = drawingState.lastNode.y;
-      }
-    }
-    const gridSnap = snapToGrid({ x: targetX, y: targetY }, GRID_SPACING * viewportCmPerPixel);
+  // Update drawing target with snapping; `free` (Shift held) turns it off
+  const updateTarget = useCallback((free: boolean = false) => {
+    const mouse = { x: mouseWorldX, y: mouseWorldY };
+    const anchors = editorMode === EditorMode.DRAW && drawingState.lastNode
+      ? [{ point: drawingState.lastNode, referenceAngle: 0 }]
+      : [];
+    const { point, guides } = free
+      ? { point: mouse, guides: [] }
+      : snapPoint(mouse, {
+          corners,
+          anchors,
+          gridSize: GRID_SPACING * viewportCmPerPixel,
+          tolerance: SNAP_TOLERANCE,
+        }, snapSettings);
     setDrawingState(prev => ({
       ...prev,
-      targetX: gridSnap.x,
-      targetY: gridSnap.y
+      targetX: point.x,
+      targetY: point.y,
+      guides
     }));
-  }, [mouseWorldX, mouseWorldY, editorMode, drawingState.lastNode, viewportCmPerPixel, SNAP_TOLERANCE, GRID_SPACING]);
+  }, [mouseWorldX, mouseWorldY, editorMode, drawingState.lastNode, corners, snapSettings, viewportCmPerPixel, SNAP_TOLERANCE, GRID_SPACING]);
 
   return { drawingState, setDrawingState, updateTarget };
 }
@@ -0,0 +1,21 @@
+import { useEffect, useState } from 'react';
+import { useFloorplanStore } from '@/stores/floorplan-store';
+import { SpatialIndex } from '@/lib/utils/spatial-index';
+
+/**
+ * A spatial index kept in step with the store's floorplan. It syncs in the
+ * store subscription rather than on render, so queries made mid-drag see
+ * the floorplan as of the last store update.
+ */
+export function useSpatialIndex(): SpatialIndex {
+  const [index] = useState(() => new SpatialIndex().sync(useFloorplanStore.getState().floorplan));
+
+  useEffect(() => {
+    index.sync(useFloorplanStore.getState().floorplan);
+    return useFloorplanStore.subscribe(state => {
+      index.sync(state.floorplan);
+    });
+  }, [index]);
+
+  return index;
+}
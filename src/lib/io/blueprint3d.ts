@@ -0,0 +1,250 @@
+import { AppConfig, Corner, FloorplanData, Item3D, Room, Texture, Wall } from '@/types';
+import { GeometryUtils } from '@/lib/utils/math';
+import { generateId } from '@/lib/utils';
+import { findRoomAt } from '@/lib/utils/rooms';
+import { ProjectFileError, ValidationIssue } from '@/lib/project';
+
+/**
+ * Import and export of blueprint3d `.blueprint3d` designs.
+ *
+ * blueprint3d serializes a design as:
+ *
+ *   {
+ *     "floorplan": {
+ *       "corners": { [id]: { "x": number, "y": number } },
+ *       "walls": [{ "corner1": id, "corner2": id, "frontTexture": Texture, "backTexture": Texture }],
+ *       "wallTextures": [],
+ *       "floorTextures": {},
+ *       "newFloorTextures": { [sorted corner ids joined by ","]: Texture }
+ *     },
+ *     "items": [{ "item_name", "item_type", "model_url", "xpos", "ypos", "zpos",
+ *                 "rotation", "scale_x", "scale_y", "scale_z", "fixed" }]
+ *   }
+ *
+ * Both tools use centimetres, the same plan axes and item centres with y up,
+ * so coordinates carry over unchanged. blueprint3d walls have no stored
+ * thickness or height; imported walls take them from AppConfig. Doors and
+ * windows are in-wall items in blueprint3d and import as items; this
+ * editor's openings have no blueprint3d equivalent and are not exported.
+ */
+
+export const BLUEPRINT3D_FILE_EXTENSION = '.blueprint3d';
+
+interface Blueprint3dTexture {
+  url: string;
+  stretch?: boolean;
+  scale: number;
+}
+
+interface Blueprint3dItem {
+  item_name: string;
+  item_type: number;
+  model_url: string;
+  xpos: number;
+  ypos: number;
+  zpos: number;
+  rotation: number;
+  scale_x: number;
+  scale_y: number;
+  scale_z: number;
+  fixed: boolean;
+}
+
+export interface Blueprint3dDesign {
+  floorplan: {
+    corners: Record<string, { x: number; y: number }>;
+    walls: {
+      corner1: string;
+      corner2: string;
+      frontTexture?: Blueprint3dTexture;
+      backTexture?: Blueprint3dTexture;
+    }[];
+    wallTextures: unknown[];
+    floorTextures: Record<string, unknown>;
+    newFloorTextures: Record<string, Blueprint3dTexture>;
+  };
+  items: Blueprint3dItem[];
+}
+
+// blueprint3d's built-in textures, written for walls and rooms without a
+// finish of their own and read back as "no texture"
+const DEFAULT_WALL_TEXTURE: Blueprint3dTexture = { url: 'rooms/textures/wallmap.png', stretch: true, scale: 0 };
+const DEFAULT_FLOOR_TEXTURE: Blueprint3dTexture = { url: 'rooms/textures/hardwood.png', scale: 400 };
+
+// blueprint3d item type numbers and the ItemMetadata.itemType they map to
+const ITEM_TYPES: Record<number, string> = {
+  1: 'floor',
+  2: 'wall',
+  3: 'in_wall',
+  7: 'in_wall_floor',
+  8: 'on_floor',
+  9: 'wall_floor',
+};
+
+// blueprint3d identifies a room by its sorted corner ids
+const roomUuid = (cornerIds: string[]) => [...cornerIds].sort().join(',');
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+function importTexture(texture: Blueprint3dTexture | undefined, fallback: Blueprint3dTexture): Texture | undefined {
+  if (!texture || typeof texture.url !== 'string') return undefined;
+  if (texture.url === fallback.url && texture.scale === fallback.scale) return undefined;
+  return {
+    url: texture.url,
+    scale: isNumber(texture.scale) ? texture.scale : 0,
+    ...(texture.stretch !== undefined && { stretch: !!texture.stretch }),
+  };
+}
+
+function exportTexture(texture: Texture | undefined, fallback: Blueprint3dTexture): Blueprint3dTexture {
+  if (!texture) return { ...fallback };
+  return {
+    url: texture.url,
+    scale: texture.scale,
+    ...(texture.stretch !== undefined && { stretch: texture.stretch }),
+  };
+}
+
+/**
+ * Convert a blueprint3d design into FloorplanData. Corner ids are kept so
+ * floor textures keyed by corner ids still find their rooms. Throws a
+ * ProjectFileError listing every unusable wall or item.
+ */
+export function importBlueprint3d(data: string, config: AppConfig): FloorplanData {
+  let design: Blueprint3dDesign;
+  try {
+    design = JSON.parse(data);
+  } catch (error) {
+    throw new ProjectFileError(`Design is not valid JSON (${(error as Error).message})`);
+  }
+  if (!design?.floorplan || typeof design.floorplan.corners !== 'object' || !Array.isArray(design.floorplan.walls)) {
+    throw new ProjectFileError('File is not a blueprint3d design');
+  }
+
+  const issues: ValidationIssue[] = [];
+  const corners: Record<string, Corner> = {};
+  Object.entries(design.floorplan.corners).forEach(([id, corner]) => {
+    if (!isNumber(corner?.x) || !isNumber(corner?.y)) {
+      issues.push({ path: `floorplan.corners.${id}`, message: 'expected numeric x and y' });
+      return;
+    }
+    corners[id] = { id, x: corner.x, y: corner.y, adjacentWalls: [] };
+  });
+
+  const walls: Record<string, Wall> = {};
+  design.floorplan.walls.forEach((source, index) => {
+    const start = corners[source?.corner1];
+    const end = corners[source?.corner2];
+    if (!start || !end || start === end) {
+      issues.push({ path: `floorplan.walls[${index}]`, message: 'must join two different existing corners' });
+      return;
+    }
+    const wall: Wall = {
+      id: generateId(),
+      startCorner: start.id,
+      endCorner: end.id,
+      thickness: config.wallThickness,
+      height: config.wallHeight,
+    };
+    const frontTexture = importTexture(source.frontTexture, DEFAULT_WALL_TEXTURE);
+    const backTexture = importTexture(source.backTexture, DEFAULT_WALL_TEXTURE);
+    if (frontTexture) wall.frontTexture = frontTexture;
+    if (backTexture) wall.backTexture = backTexture;
+    walls[wall.id] = wall;
+    start.adjacentWalls.push(wall.id);
+    end.adjacentWalls.push(wall.id);
+  });
+
+  const floorTextures = design.floorplan.newFloorTextures ?? {};
+  const rooms: Record<string, Room> = {};
+  GeometryUtils.findRooms(corners, walls).forEach((cornerIds, index) => {
+    const room: Room = { id: generateId(), corners: cornerIds, name: `Room ${index + 1}` };
+    const floorTexture = importTexture(floorTextures[roomUuid(cornerIds)], DEFAULT_FLOOR_TEXTURE);
+    if (floorTexture) room.floorTexture = floorTexture;
+    rooms[room.id] = room;
+  });
+
+  const items: Record<string, Item3D> = {};
+  const floorplan: FloorplanData = { corners, walls, rooms, openings: {}, items };
+  (Array.isArray(design.items) ? design.items : []).forEach((source, index) => {
+    const numbers = [source?.xpos, source?.ypos, source?.zpos, source?.rotation];
+    if (typeof source?.model_url !== 'string' || !numbers.every(isNumber)) {
+      issues.push({ path: `items[${index}]`, message: 'expected model_url and numeric xpos, ypos, zpos and rotation' });
+      return;
+    }
+    const id = generateId();
+    const name = source.item_name ?? 'Item';
+    const itemType = ITEM_TYPES[source.item_type] ?? 'floor';
+    // In the room its centre is in, as items placed in the editor are
+    const room = findRoomAt(floorplan, { x: source.xpos, y: source.zpos });
+    items[id] = {
+      id,
+      name,
+      modelUrl: source.model_url,
+      position: { x: source.xpos, y: source.ypos, z: source.zpos },
+      rotation: { x: 0, y: source.rotation, z: 0 },
+      scale: {
+        x: isNumber(source.scale_x) ? source.scale_x : 1,
+        y: isNumber(source.scale_y) ? source.scale_y : 1,
+        z: isNumber(source.scale_z) ? source.scale_z : 1,
+      },
+      ...(room && { roomId: room.id }),
+      metadata: {
+        itemName: name,
+        itemType,
+        resizable: true,
+        category: 'Imported',
+        fixed: !!source.fixed,
+      },
+    };
+  });
+
+  if (issues.length > 0) {
+    throw new ProjectFileError('blueprint3d design is invalid', issues);
+  }
+
+  return floorplan;
+}
+
+/**
+ * Convert FloorplanData into a blueprint3d design
+ */
+export function exportBlueprint3d(floorplan: FloorplanData): string {
+  const itemTypeNumbers = new Map(Object.entries(ITEM_TYPES).map(([number, type]) => [type, Number(number)]));
+
+  const design: Blueprint3dDesign = {
+    floorplan: {
+      corners: Object.fromEntries(
+        Object.values(floorplan.corners).map(corner => [corner.id, { x: corner.x, y: corner.y }])
+      ),
+      walls: Object.values(floorplan.walls).map(wall => ({
+        corner1: wall.startCorner,
+        corner2: wall.endCorner,
+        frontTexture: exportTexture(wall.frontTexture, DEFAULT_WALL_TEXTURE),
+        backTexture: exportTexture(wall.backTexture, DEFAULT_WALL_TEXTURE),
+      })),
+      wallTextures: [],
+      floorTextures: {},
+      newFloorTextures: Object.fromEntries(
+        Object.values(floorplan.rooms)
+          .filter(room => room.floorTexture)
+          .map(room => [roomUuid(room.corners), exportTexture(room.floorTexture, DEFAULT_FLOOR_TEXTURE)])
+      ),
+    },
+    items: Object.values(floorplan.items).map(item => ({
+      item_name: item.name,
+      item_type: itemTypeNumbers.get(item.metadata.itemType) ?? 1,
+      model_url: item.modelUrl,
+      xpos: item.position.x,
+      ypos: item.position.y,
+      zpos: item.position.z,
+      rotation: item.rotation.y,
+      scale_x: item.scale.x,
+      scale_y: item.scale.y,
+      scale_z: item.scale.z,
+      fixed: !!item.metadata.fixed,
+    })),
+  };
+
+  return JSON.stringify(design);
+}
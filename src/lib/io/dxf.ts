@@ -0,0 +1,407 @@
+import { AppConfig, Corner, FloorplanData, OpeningType, Point2D, Room, Wall } from '@/types';
+import { GeometryUtils, MathUtils } from '@/lib/utils/math';
+import { getOpeningSpans, getSolidSegments, getWallOpenings } from '@/lib/utils/openings';
+import { DEFAULT_CONFIG } from '@/lib/config';
+import { formatLength, LengthFormat } from '@/lib/utils/units';
+import { generateId } from '@/lib/utils';
+import { addWallSplittingCrossings, splitWallAt } from '@/lib/utils/wall-graph';
+import { ProjectFileError } from '@/lib/project';
+
+/**
+ * DXF import and export for exchanging plans with CAD tools.
+ *
+ * Export writes an R12 (AC1009) ASCII DXF, the flavour every CAD package
+ * reads, in centimetres ($INSUNITS 5). Layers:
+ *
+ *   WALLS       closed POLYLINE outline of each wall body, broken at openings
+ *   WALL_AXES   one LINE per wall along its axis, for re-import
+ *   OPENINGS    door leaves and swing arcs, window glazing
+ *   DIMENSIONS  wall lengths as TEXT
+ *   ROOMS       closed POLYLINE outline and name TEXT for each room
+ *
+ * DXF's y axis points up while the plan's points down, so y is negated both
+ * ways to keep drawings the right way round.
+ *
+ * Import turns LINE, LWPOLYLINE and POLYLINE entities into walls, merging
+ * endpoints closer than AppConfig.snapTolerance into shared corners. Files
+ * written by exportDxf are read from their WALL_AXES layer only, so wall
+ * outlines do not come back as extra walls. Polyline bulges (arcs) are read
+ * as straight segments; blocks, ARCs and CIRCLEs are ignored.
+ */
+
+export const DXF_FILE_EXTENSION = '.dxf';
+
+export const DXF_LAYERS = {
+  walls: 'WALLS',
+  wallAxes: 'WALL_AXES',
+  openings: 'OPENINGS',
+  dimensions: 'DIMENSIONS',
+  rooms: 'ROOMS',
+} as const;
+
+// AutoCAD colour index for each layer
+const LAYER_COLORS: Record<string, number> = {
+  [DXF_LAYERS.walls]: 7,
+  [DXF_LAYERS.wallAxes]: 8,
+  [DXF_LAYERS.openings]: 4,
+  [DXF_LAYERS.dimensions]: 3,
+  [DXF_LAYERS.rooms]: 5,
+};
+
+export interface DxfExportOptions {
+  textHeight?: number; // cm
+  lengthFormat?: LengthFormat; // units for dimension labels
+}
+
+export interface DxfImportOptions {
+  layers?: string[]; // only read these layers; defaults to all (or WALL_AXES, see above)
+}
+
+// $INSUNITS codes and the number of cm in each unit
+const INSUNITS_TO_CM: Record<number, number> = {
+  1: 2.54, // inches
+  2: 30.48, // feet
+  4: 0.1, // millimetres
+  5: 1, // centimetres
+  6: 100, // metres
+};
+const INSUNITS_CM = 5;
+
+const DEFAULT_TEXT_HEIGHT = 15;
+
+const num = (value: number) => Number(value.toFixed(4)).toString();
+
+const toDxf = (point: Point2D): Point2D => ({ x: point.x, y: -point.y });
+
+const degrees = (radians: number) => ((radians * 180) / Math.PI + 360) % 360;
+
+/**
+ * Writes group code/value pairs
+ */
+class DxfWriter {
+  private lines: string[] = [];
+
+  pair(code: number, value: string | number) {
+    this.lines.push(String(code), typeof value === 'number' ? num(value) : value);
+  }
+
+  point(point: Point2D, codeOffset: number = 0) {
+    const p = toDxf(point);
+    this.pair(10 + codeOffset, p.x);
+    this.pair(20 + codeOffset, p.y);
+    this.pair(30 + codeOffset, 0);
+  }
+
+  line(layer: string, start: Point2D, end: Point2D) {
+    this.pair(0, 'LINE');
+    this.pair(8, layer);
+    this.point(start);
+    this.point(end, 1);
+  }
+
+  polyline(layer: string, points: Point2D[], closed: boolean) {
+    this.pair(0, 'POLYLINE');
+    this.pair(8, layer);
+    this.pair(66, 1);
+    this.point({ x: 0, y: 0 });
+    this.pair(70, closed ? 1 : 0);
+    for (const point of points) {
+      this.pair(0, 'VERTEX');
+      this.pair(8, layer);
+      this.point(point);
+    }
+    this.pair(0, 'SEQEND');
+    this.pair(8, layer);
+  }
+
+  // A counter-clockwise arc in DXF space, angles in degrees
+  arc(layer: string, center: Point2D, radius: number, startAngle: number, endAngle: number) {
+    this.pair(0, 'ARC');
+    this.pair(8, layer);
+    this.point(center);
+    this.pair(40, radius);
+    this.pair(50, startAngle);
+    this.pair(51, endAngle);
+  }
+
+  // Text centred on a point, rotated by `angle` degrees
+  text(layer: string, at: Point2D, height: number, text: string, angle: number = 0) {
+    this.pair(0, 'TEXT');
+    this.pair(8, layer);
+    this.point(at);
+    this.pair(40, height);
+    this.pair(1, text);
+    this.pair(50, angle);
+    this.pair(72, 1);
+    this.point(at, 1);
+    this.pair(73, 2);
+  }
+
+  toString() {
+    return this.lines.join('\n') + '\n';
+  }
+}
+
+/**
+ * Convert FloorplanData into a DXF drawing
+ */
+export function exportDxf(floorplan: FloorplanData, options: DxfExportOptions = {}): string {
+  const { textHeight = DEFAULT_TEXT_HEIGHT, lengthFormat = DEFAULT_CONFIG } = options;
+  const { corners } = floorplan;
+  const dxf = new DxfWriter();
+
+  dxf.pair(0, 'SECTION');
+  dxf.pair(2, 'HEADER');
+  dxf.pair(9, '$ACADVER');
+  dxf.pair(1, 'AC1009');
+  dxf.pair(9, '$INSUNITS');
+  dxf.pair(70, INSUNITS_CM);
+  dxf.pair(0, 'ENDSEC');
+
+  dxf.pair(0, 'SECTION');
+  dxf.pair(2, 'TABLES');
+  dxf.pair(0, 'TABLE');
+  dxf.pair(2, 'LAYER');
+  dxf.pair(70, Object.keys(LAYER_COLORS).length);
+  for (const [layer, color] of Object.entries(LAYER_COLORS)) {
+    dxf.pair(0, 'LAYER');
+    dxf.pair(2, layer);
+    dxf.pair(70, 0);
+    dxf.pair(62, color);
+    dxf.pair(6, 'CONTINUOUS');
+  }
+  dxf.pair(0, 'ENDTAB');
+  dxf.pair(0, 'ENDSEC');
+
+  dxf.pair(0, 'SECTION');
+  dxf.pair(2, 'ENTITIES');
+
+  for (const room of Object.values(floorplan.rooms)) {
+    const points = room.corners.map(id => corners[id]).filter((c): c is Corner => !!c);
+    if (points.length < 3) continue;
+    dxf.polyline(DXF_LAYERS.rooms, points, true);
+    if (room.name) dxf.text(DXF_LAYERS.rooms, GeometryUtils.poleOfInaccessibility(points), textHeight * 1.2, room.name);
+  }
+
+  for (const wall of Object.values(floorplan.walls)) {
+    const start = corners[wall.startCorner];
+    const end = corners[wall.endCorner];
+    if (!start || !end) continue;
+    const length = MathUtils.distance(start, end);
+    if (length === 0) continue;
+
+    const ux = (end.x - start.x) / length;
+    const uy = (end.y - start.y) / length;
+    const half = wall.thickness / 2;
+    const pointAt = (along: number, across: number = 0): Point2D => ({
+      x: start.x + ux * along - uy * across,
+      y: start.y + uy * along + ux * across,
+    });
+
+    dxf.line(DXF_LAYERS.wallAxes, start, end);
+
+    const spans = getOpeningSpans(getWallOpenings(wall.id, floorplan.openings), length);
+    for (const [from, to] of getSolidSegments(spans, length)) {
+      dxf.polyline(DXF_LAYERS.walls, [pointAt(from, -half), pointAt(to, -half), pointAt(to, half), pointAt(from, half)], true);
+    }
+
+    for (const { opening, start: from, end: to } of spans) {
+      if (opening.type === OpeningType.WINDOW) {
+        for (const across of [-half / 3, 0, half / 3]) {
+          dxf.line(DXF_LAYERS.openings, pointAt(from, across), pointAt(to, across));
+        }
+        continue;
+      }
+      // Door leaf drawn open at 90° with its swing arc, as in the editor
+      const width = to - from;
+      const hinge = pointAt(opening.hinge === 'start' ? from : to);
+      const closed = opening.hinge === 'start' ? { x: ux, y: uy } : { x: -ux, y: -uy };
+      const sign = (opening.swing === 'front' ? 1 : -1) * (opening.hinge === 'start' ? 1 : -1);
+      const leaf = { x: -closed.y * sign, y: closed.x * sign };
+      dxf.line(DXF_LAYERS.openings, hinge, { x: hinge.x + leaf.x * width, y: hinge.y + leaf.y * width });
+      // In DXF space (y flipped) the arc runs counter-clockwise from one of
+      // the two directions to the other
+      const closedAngle = degrees(Math.atan2(-closed.y, closed.x));
+      const leafAngle = degrees(Math.atan2(-leaf.y, leaf.x));
+      const ccw = Math.abs(((leafAngle - closedAngle + 360) % 360) - 90) < 1;
+      dxf.arc(DXF_LAYERS.openings, hinge, width, ccw ? closedAngle : leafAngle, ccw ? leafAngle : closedAngle);
+    }
+
+    // Keep dimension text upright
+    let angle = degrees(Math.atan2(-uy, ux));
+    if (angle > 90 && angle <= 270) angle = (angle + 180) % 360;
+    dxf.text(DXF_LAYERS.dimensions, pointAt(length / 2, half + textHeight), textHeight, formatLength(length, lengthFormat), angle);
+  }
+
+  dxf.pair(0, 'ENDSEC');
+  dxf.pair(0, 'EOF');
+  return dxf.toString();
+}
+
+interface DxfEntity {
+  type: string;
+  layer: string;
+  pairs: [number, string][];
+}
+
+/**
+ * Split a DXF file into its header variables and its entities
+ */
+function readDxf(data: string): { header: Map<string, string>; entities: DxfEntity[] } {
+  const lines = data.split(/\r?\n/);
+  const pairs: [number, string][] = [];
+  for (let i = 0; i + 1 < lines.length; i += 2) {
+    const code = Number.parseInt(lines[i].trim(), 10);
+    if (Number.isNaN(code)) {
+      throw new ProjectFileError(`DXF file is malformed: expected a group code on line ${i + 1}`);
+    }
+    pairs.push([code, lines[i + 1].trim()]);
+  }
+
+  const header = new Map<string, string>();
+  const entities: DxfEntity[] = [];
+  let section: string | null = null;
+  let sections = 0;
+  for (let i = 0; i < pairs.length; i++) {
+    const [code, value] = pairs[i];
+    if (code === 0 && value === 'SECTION') {
+      section = pairs[i + 1]?.[0] === 2 ? pairs[++i][1] : null;
+      sections++;
+    } else if (code === 0 && value === 'ENDSEC') {
+      section = null;
+    } else if (section === 'HEADER' && code === 9) {
+      const next = pairs[i + 1];
+      if (next && next[0] !== 9 && next[0] !== 0) header.set(value, next[1]);
+    } else if (section === 'ENTITIES' && code === 0) {
+      entities.push({ type: value, layer: '0', pairs: [] });
+    } else if (section === 'ENTITIES' && entities.length > 0) {
+      const entity = entities[entities.length - 1];
+      if (code === 8) entity.layer = value;
+      entity.pairs.push([code, value]);
+    }
+  }
+  if (sections === 0) {
+    throw new ProjectFileError('File is not a DXF drawing');
+  }
+  return { header, entities };
+}
+
+// Collect the (10, 20) vertex pairs of an entity in order
+function readVertices(pairs: [number, string][]): Point2D[] {
+  const vertices: Point2D[] = [];
+  for (const [code, value] of pairs) {
+    if (code === 10) vertices.push({ x: Number(value), y: 0 });
+    else if (code === 20 && vertices.length > 0) vertices[vertices.length - 1].y = Number(value);
+  }
+  return vertices;
+}
+
+const value = (pairs: [number, string][], code: number, fallback: number = NaN) =>
+  Number(pairs.find(([c]) => c === code)?.[1] ?? fallback);
+
+const isClosed = (pairs: [number, string][]) => (value(pairs, 70, 0) & 1) === 1;
+
+/**
+ * Read the line segments of a drawing, in DXF coordinates and units
+ */
+function readSegments(entities: DxfEntity[], layers: Set<string> | null): [Point2D, Point2D][] {
+  const segments: [Point2D, Point2D][] = [];
+  const addPath = (points: Point2D[], closed: boolean) => {
+    for (let i = 0; i + 1 < points.length; i++) segments.push([points[i], points[i + 1]]);
+    if (closed && points.length > 2) segments.push([points[points.length - 1], points[0]]);
+  };
+
+  for (let i = 0; i < entities.length; i++) {
+    const entity = entities[i];
+    if (layers && !layers.has(entity.layer)) continue;
+    if (entity.type === 'LINE') {
+      segments.push([
+        { x: value(entity.pairs, 10), y: value(entity.pairs, 20) },
+        { x: value(entity.pairs, 11), y: value(entity.pairs, 21) },
+      ]);
+    } else if (entity.type === 'LWPOLYLINE') {
+      addPath(readVertices(entity.pairs), isClosed(entity.pairs));
+    } else if (entity.type === 'POLYLINE') {
+      // Old-style polylines list their points as VERTEX entities up to SEQEND
+      const points: Point2D[] = [];
+      while (entities[i + 1]?.type === 'VERTEX') {
+        const [vertex] = readVertices(entities[++i].pairs);
+        if (vertex) points.push(vertex);
+      }
+      addPath(points, isClosed(entity.pairs));
+    }
+  }
+  return segments.filter(([a, b]) => [a.x, a.y, b.x, b.y].every(Number.isFinite));
+}
+
+/**
+ * Convert a DXF drawing into FloorplanData. New walls take their thickness
+ * and height from AppConfig. Segments are joined as walls drawn in the
+ * editor are: ends within the snap tolerance share a corner, an end on
+ * another wall splits it (a T-junction), and crossing walls are split where
+ * they cross, so the rooms they enclose are found.
+ */
+export function importDxf(data: string, config: AppConfig, options: DxfImportOptions = {}): FloorplanData {
+  const { header, entities } = readDxf(data);
+
+  let layers = options.layers ? new Set(options.layers) : null;
+  if (!layers && entities.some(entity => entity.layer === DXF_LAYERS.wallAxes)) {
+    layers = new Set([DXF_LAYERS.wallAxes]);
+  }
+  const unitsCode = Number(header.get('$INSUNITS'));
+  const toCm = INSUNITS_TO_CM[unitsCode] ?? 1;
+
+  let floorplan: FloorplanData = { corners: {}, walls: {}, rooms: {}, openings: {}, items: {} };
+  const cornerAt = (point: Point2D): string => {
+    const plan = { x: point.x * toCm, y: -point.y * toCm };
+    const existing = Object.values(floorplan.corners).find(corner => MathUtils.pointsEqual(corner, plan, config.snapTolerance));
+    if (existing) return existing.id;
+    const host = Object.values(floorplan.walls).find(wall => {
+      const start = floorplan.corners[wall.startCorner];
+      const end = floorplan.corners[wall.endCorner];
+      return start && end && MathUtils.distanceToLineSegment(plan, start, end) <= config.snapTolerance;
+    });
+    const split = host && splitWallAt(floorplan, host.id, plan);
+    if (split) {
+      floorplan = split.floorplan;
+      return split.cornerId;
+    }
+    const corner: Corner = { id: generateId(), x: plan.x, y: plan.y, adjacentWalls: [] };
+    floorplan = { ...floorplan, corners: { ...floorplan.corners, [corner.id]: corner } };
+    return corner.id;
+  };
+
+  for (const [a, b] of readSegments(entities, layers)) {
+    const start = cornerAt(a);
+    const end = cornerAt(b);
+    // Segments shorter than the tolerance collapse; one drawn twice is kept
+    // once, as the crossing split skips walls that already exist
+    if (start === end) continue;
+    floorplan = addWallSplittingCrossings(floorplan, {
+      id: generateId(),
+      startCorner: start,
+      endCorner: end,
+      thickness: config.wallThickness,
+      height: config.wallHeight,
+    });
+  }
+
+  const { walls } = floorplan;
+  if (Object.keys(walls).length === 0) {
+    throw new ProjectFileError('DXF drawing has no LINE, LWPOLYLINE or POLYLINE entities to import as walls');
+  }
+
+  // Drop corners only used by collapsed segments
+  const corners: Record<string, Corner> = {};
+  Object.values(floorplan.corners).forEach(corner => {
+    if (corner.adjacentWalls.length > 0) corners[corner.id] = corner;
+  });
+
+  const rooms: Record<string, Room> = {};
+  GeometryUtils.findRooms(corners, walls).forEach((cornerIds, index) => {
+    const room: Room = { id: generateId(), corners: cornerIds, name: `Room ${index + 1}` };
+    rooms[room.id] = room;
+  });
+
+  return { corners, walls, rooms, openings: {}, items: {} };
+}
@@ -0,0 +1,214 @@
+import * as THREE from 'three';
+import { GLTFExporter } from 'three/examples/jsm/exporters/GLTFExporter.js';
+import { Corner, FloorplanData, Item3D, Room, Texture, Wall } from '@/types';
+import { AssetCache, centerModel } from '@/lib/three/assets';
+import { getOpeningSpans, getWallOpenings } from '@/lib/utils/openings';
+import { getCeilingHeight } from '@/lib/utils/rooms';
+import {
+  CEILING_COLOR,
+  CEILING_ROTATION_X,
+  createCeilingGeometry,
+  createFloorGeometry,
+  createWallGeometry,
+  FLOOR_ROTATION_X,
+  getFloorColor,
+  getWallPlacement,
+  setTextureRepeat,
+  splitWallFaces,
+  WALL_COLOR,
+} from '@/lib/three/floorplan-geometry';
+
+/**
+ * glTF 2.0 export of the 3D model, for handing designs to Blender and other
+ * DCC tools. Builds a three.js scene from FloorplanData with the same
+ * geometry as the 3D view and writes it with three's GLTFExporter.
+ *
+ * Scene layout (plan centimetres are scaled to glTF metres at the root):
+ *
+ *   <project name>
+ *     walls/    wall-<id>         front, back and edge materials
+ *                 opening-<id>    empty marking each door or window cut-out
+ *     rooms/    room-<id>-floor
+ *               room-<id>-ceiling
+ *     items/    item-<id>         the item's transform, its model as child
+ *
+ * Every node's extras carry the id it was built from (wallId, roomId, ...)
+ * and textured materials carry their texture url and scale, so the scene
+ * maps back to the plan even where an image could not be embedded.
+ */
+
+export const GLTF_FILE_EXTENSIONS = { glb: '.glb', gltf: '.gltf' } as const;
+
+export interface GltfExportOptions {
+  binary?: boolean; // GLB when true, otherwise glTF JSON with embedded buffers
+  name?: string; // name of the scene root
+}
+
+const CM_TO_M = 0.01;
+const FLOOR_ELEVATION = 0.5; // cm, as in the 3D view, to keep the floor off the ground
+
+/**
+ * Create a material for a surface, textured as described at setTextureRepeat
+ */
+async function createMaterial(
+  assets: AssetCache,
+  name: string,
+  color: string,
+  texture: Texture | undefined,
+  size: { width: number; height: number }
+): Promise<THREE.MeshStandardMaterial> {
+  const material = new THREE.MeshStandardMaterial({ name, color, side: THREE.DoubleSide });
+  if (!texture) return material;
+
+  material.userData = { textureUrl: texture.url, textureScale: texture.scale, textureStretch: !!texture.stretch };
+  const image = await assets.texture(texture.url);
+  if (!image) return material;
+
+  const map = image.clone();
+  setTextureRepeat(map, texture, size);
+  material.map = map;
+  material.color.set('#ffffff');
+  return material;
+}
+
+async function createWallNode(assets: AssetCache, wall: Wall, floorplan: FloorplanData): Promise<THREE.Object3D | null> {
+  const placement = getWallPlacement(wall, floorplan.corners);
+  if (!placement) return null;
+
+  const openings = getWallOpenings(wall.id, floorplan.openings);
+  const geometry = createWallGeometry(wall, placement.length, openings);
+  splitWallFaces(geometry);
+  const size = { width: placement.length, height: wall.height };
+  const materials = await Promise.all([
+    createMaterial(assets, `wall-${wall.id}-back`, WALL_COLOR, wall.backTexture, size),
+    createMaterial(assets, `wall-${wall.id}-front`, WALL_COLOR, wall.frontTexture, size),
+    createMaterial(assets, `wall-${wall.id}-edge`, WALL_COLOR, undefined, size),
+  ]);
+
+  const mesh = new THREE.Mesh(geometry, materials);
+  mesh.name = `wall-${wall.id}`;
+  mesh.position.copy(placement.position);
+  mesh.rotation.y = placement.rotationY;
+  mesh.userData = { wallId: wall.id, thickness: wall.thickness, height: wall.height };
+
+  // Mark each opening at its cut-out: the span clamped to the wall, as
+  // createWallGeometry cuts it
+  for (const { opening, start, end } of getOpeningSpans(openings, placement.length)) {
+    const marker = new THREE.Object3D();
+    marker.name = `opening-${opening.id}`;
+    marker.position.set((start + end) / 2, opening.sillHeight + opening.height / 2, 0);
+    marker.userData = {
+      openingId: opening.id,
+      type: opening.type,
+      width: opening.width,
+      height: opening.height,
+      sillHeight: opening.sillHeight,
+    };
+    mesh.add(marker);
+  }
+  return mesh;
+}
+
+async function createRoomNodes(assets: AssetCache, room: Room, floorplan: FloorplanData): Promise<THREE.Object3D[]> {
+  const floorGeometry = createFloorGeometry(room, floorplan.corners);
+  const ceilingGeometry = createCeilingGeometry(room, floorplan.corners);
+  if (!floorGeometry || !ceilingGeometry) return [];
+
+  const outline = room.corners.map(id => floorplan.corners[id]).filter((c): c is Corner => !!c);
+  const size = {
+    width: Math.max(...outline.map(c => c.x)) - Math.min(...outline.map(c => c.x)),
+    height: Math.max(...outline.map(c => c.y)) - Math.min(...outline.map(c => c.y)),
+  };
+  const userData = { roomId: room.id, name: room.name };
+
+  const floor = new THREE.Mesh(
+    floorGeometry,
+    await createMaterial(assets, `room-${room.id}-floor`, getFloorColor(room), room.floorTexture, size)
+  );
+  floor.name = `room-${room.id}-floor`;
+  floor.rotation.x = FLOOR_ROTATION_X;
+  floor.position.y = FLOOR_ELEVATION;
+  floor.userData = userData;
+
+  const ceiling = new THREE.Mesh(
+    ceilingGeometry,
+    await createMaterial(assets, `room-${room.id}-ceiling`, CEILING_COLOR, undefined, size)
+  );
+  ceiling.name = `room-${room.id}-ceiling`;
+  ceiling.rotation.x = CEILING_ROTATION_X;
+  ceiling.position.y = getCeilingHeight(room, floorplan);
+  ceiling.userData = userData;
+
+  return [floor, ceiling];
+}
+
+async function createItemNode(assets: AssetCache, item: Item3D): Promise<THREE.Object3D> {
+  const node = new THREE.Group();
+  node.name = `item-${item.id}`;
+  node.position.set(item.position.x, item.position.y, item.position.z);
+  node.rotation.set(item.rotation.x, item.rotation.y, item.rotation.z);
+  node.scale.set(item.scale.x, item.scale.y, item.scale.z);
+  node.userData = {
+    itemId: item.id,
+    name: item.name,
+    modelUrl: item.modelUrl,
+    itemType: item.metadata.itemType,
+    ...(item.roomId && { roomId: item.roomId }),
+  };
+
+  const model = await assets.model(item.modelUrl);
+  if (model) {
+    centerModel(model);
+    node.add(model);
+  } else if (item.modelUrl) {
+    node.userData.missingModel = true;
+  }
+  return node;
+}
+
+/**
+ * Build the export scene for a floorplan
+ */
+export async function createExportScene(floorplan: FloorplanData, name: string = 'Floorplan'): Promise<THREE.Scene> {
+  const assets = new AssetCache();
+  const scene = new THREE.Scene();
+  scene.name = name;
+
+  const root = new THREE.Group();
+  root.name = name;
+  root.scale.setScalar(CM_TO_M);
+  scene.add(root);
+
+  const group = (groupName: string, children: (THREE.Object3D | null)[]) => {
+    const node = new THREE.Group();
+    node.name = groupName;
+    children.forEach(child => child && node.add(child));
+    root.add(node);
+  };
+
+  group('walls', await Promise.all(Object.values(floorplan.walls).map(wall => createWallNode(assets, wall, floorplan))));
+  group('rooms', (await Promise.all(Object.values(floorplan.rooms).map(room => createRoomNodes(assets, room, floorplan)))).flat());
+  group('items', await Promise.all(Object.values(floorplan.items).map(item => createItemNode(assets, item))));
+  return scene;
+}
+
+/**
+ * Export the floorplan's 3D model as GLB or glTF
+ */
+export async function exportGltf(floorplan: FloorplanData, options: GltfExportOptions = {}): Promise<Blob> {
+  const { binary = true, name } = options;
+  const scene = await createExportScene(floorplan, name);
+  try {
+    const result = await new GLTFExporter().parseAsync(scene, { binary, onlyVisible: false });
+    return binary
+      ? new Blob([result as ArrayBuffer], { type: 'model/gltf-binary' })
+      : new Blob([JSON.stringify(result)], { type: 'model/gltf+json' });
+  } finally {
+    scene.traverse(object => {
+      if (!(object instanceof THREE.Mesh)) return;
+      object.geometry.dispose();
+      const materials: THREE.Material[] = Array.isArray(object.material) ? object.material : [object.material];
+      materials.forEach(material => material.dispose());
+    });
+  }
+}
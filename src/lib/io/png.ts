@@ -0,0 +1,165 @@
+import { FloorplanData } from '@/types';
+import { DEFAULT_CONFIG } from '@/lib/config';
+import { GeometryUtils } from '@/lib/utils/math';
+import { formatArea, formatLength, LengthFormat } from '@/lib/utils/units';
+import { getItemFootprint } from '@/lib/utils/items';
+import { getRoomOutline, measureRoom, ROOM_TYPES } from '@/lib/utils/rooms';
+import {
+  CanvasView,
+  CORNER_COLOR,
+  CORNER_COLOR_HOVER,
+  CORNER_RADIUS_HOVER,
+  WALL_COLOR,
+  WALL_COLOR_HOVER,
+  drawCorner,
+  drawGrid,
+  drawItem,
+  drawPolygon,
+  drawRoomLabel,
+  drawWall,
+} from '@/lib/render/floorplan-canvas';
+
+/**
+ * Raster export of the 2D plan. The plan is drawn offscreen with the same
+ * renderer as the editor, independent of the editor's viewport.
+ *
+ * The paper size and DPI set the largest image the drawing may fill: the
+ * plan is scaled to fit the paper (turned to landscape when the drawing is
+ * wider than tall), and the image is then cropped to the drawing's bounding
+ * box plus the margin rather than padded out to the whole sheet.
+ */
+
+export interface PaperSize {
+  name: string;
+  width: number; // mm, portrait
+  height: number; // mm, portrait
+}
+
+export const PAPER_SIZES: PaperSize[] = [
+  { name: 'A4', width: 210, height: 297 },
+  { name: 'A3', width: 297, height: 420 },
+  { name: 'A2', width: 420, height: 594 },
+  { name: 'Letter', width: 215.9, height: 279.4 },
+  { name: 'Tabloid', width: 279.4, height: 431.8 },
+];
+
+export const PNG_DPI_OPTIONS = [96, 150, 300, 600];
+
+export interface PngExportOptions {
+  dpi?: number;
+  paper?: PaperSize;
+  margin?: number; // mm of paper around the drawing
+  showGrid?: boolean;
+  gridSpacing?: number; // cm
+  showHover?: boolean; // draw the hovered wall and corner in their hover colours
+  hoverWallId?: string | null;
+  hoverCornerId?: string | null;
+  showCorners?: boolean; // draw a handle on every corner
+  showItems?: boolean; // furniture footprints
+  showRooms?: boolean; // room fills and labels, as in the editor
+  background?: string;
+  lengthFormat?: LengthFormat; // units for dimension labels
+}
+
+// The editor's canvas is laid out at CSS pixels, 96 per inch
+const SCREEN_DPI = 96;
+const MM_PER_INCH = 25.4;
+
+// Room around the walls for their dimension labels, in screen pixels
+const LABEL_ROOM = 32;
+const CORNER_HANDLE_RADIUS = 4;
+
+/**
+ * Render the plan as a PNG image. Resolves to null when the plan is empty.
+ */
+export async function exportPng(floorplan: FloorplanData, options: PngExportOptions = {}): Promise<Blob | null> {
+  const {
+    dpi = 150,
+    paper = PAPER_SIZES[0],
+    margin = 10,
+    showGrid = false,
+    gridSpacing = 20,
+    showHover = false,
+    hoverWallId = null,
+    hoverCornerId = null,
+    showCorners = false,
+    showItems = true,
+    showRooms = true,
+    background = 'white',
+    lengthFormat = DEFAULT_CONFIG,
+  } = options;
+
+  const bounds = GeometryUtils.boundingBox([
+    ...Object.values(floorplan.corners),
+    ...(showItems ? Object.values(floorplan.items).flatMap(getItemFootprint) : []),
+  ]);
+  if (!bounds) return null;
+  const maxThickness = Math.max(0, ...Object.values(floorplan.walls).map(wall => wall.thickness));
+  const contentWidth = bounds.maxX - bounds.minX + maxThickness;
+  const contentHeight = bounds.maxY - bounds.minY + maxThickness;
+
+  // Printable area of the sheet in output pixels, oriented like the drawing
+  const pixelRatio = dpi / SCREEN_DPI;
+  const pxPerMm = dpi / MM_PER_INCH;
+  const landscape = contentWidth > contentHeight;
+  const sheetWidth = (landscape ? paper.height : paper.width) * pxPerMm;
+  const sheetHeight = (landscape ? paper.width : paper.height) * pxPerMm;
+  const pad = margin * pxPerMm + LABEL_ROOM * pixelRatio;
+  const pixelsPerCm = Math.min(
+    (sheetWidth - 2 * pad) / Math.max(contentWidth, 1),
+    (sheetHeight - 2 * pad) / Math.max(contentHeight, 1)
+  );
+  if (pixelsPerCm <= 0) throw new Error(`The margin leaves no room for the drawing on ${paper.name}`);
+
+  const width = Math.ceil(contentWidth * pixelsPerCm + 2 * pad);
+  const height = Math.ceil(contentHeight * pixelsPerCm + 2 * pad);
+  const view: CanvasView = {
+    offsetX: bounds.minX - maxThickness / 2 - pad / pixelsPerCm,
+    offsetY: bounds.minY - maxThickness / 2 - pad / pixelsPerCm,
+    pixelsPerCm,
+    pixelRatio,
+  };
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D rendering is not available');
+
+  ctx.fillStyle = background;
+  ctx.fillRect(0, 0, width, height);
+  if (showGrid) drawGrid(ctx, view, width, height, gridSpacing);
+
+  const rooms = showRooms ? Object.values(floorplan.rooms) : [];
+  for (const room of rooms) {
+    if (room.type) drawPolygon(ctx, view, getRoomOutline(room, floorplan.corners), ROOM_TYPES[room.type].fill, null);
+  }
+  for (const wall of Object.values(floorplan.walls)) {
+    const isHover = showHover && wall.id === hoverWallId;
+    drawWall(ctx, view, wall, floorplan, { color: isHover ? WALL_COLOR_HOVER : WALL_COLOR, showLabel: true, lengthFormat });
+  }
+  for (const room of rooms) {
+    const { area, perimeter, labelPoint } = measureRoom(room, floorplan);
+    drawRoomLabel(ctx, view, labelPoint, room.name ?? 'Room', [
+      formatArea(area, lengthFormat),
+      `Perimeter ${formatLength(perimeter, lengthFormat)}`,
+    ]);
+  }
+  if (showItems) {
+    for (const item of Object.values(floorplan.items)) drawItem(ctx, view, item);
+  }
+  for (const corner of Object.values(floorplan.corners)) {
+    if (showHover && corner.id === hoverCornerId) {
+      drawCorner(ctx, view, corner, CORNER_RADIUS_HOVER, CORNER_COLOR_HOVER);
+    } else if (showCorners) {
+      drawCorner(ctx, view, corner, CORNER_HANDLE_RADIUS, CORNER_COLOR);
+    }
+  }
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => {
+      if (blob) resolve(blob);
+      else reject(new Error(`Could not encode a ${width}×${height} image; try a lower DPI or smaller paper`));
+    }, 'image/png');
+  });
+}
@@ -0,0 +1,224 @@
+import { Corner, FloorplanData, OpeningType, Point2D } from '@/types';
+import { GeometryUtils, MathUtils } from '@/lib/utils/math';
+import { getOpeningSpans, getSolidSegments, getWallOpenings } from '@/lib/utils/openings';
+import { DEFAULT_CONFIG } from '@/lib/config';
+import { formatLength, LengthFormat } from '@/lib/utils/units';
+import { getItemFootprint } from '@/lib/utils/items';
+
+/**
+ * Vector export of the 2D plan. Works purely from FloorplanData and builds
+ * the SVG as a string, so it runs without a DOM (e.g. server-side).
+ *
+ * The SVG's viewBox is in plan centimetres and its width/height are in
+ * millimetres, so printing it at 100% reproduces the chosen drawing scale.
+ * Text sizes and line weights are given in paper millimetres and converted
+ * to plan units.
+ */
+
+export interface PlanBounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+export interface SvgExportOptions {
+  scale?: number; // drawing scale denominator, 50 for 1:50
+  margin?: number; // mm of paper around the drawing
+  bounds?: PlanBounds; // plan area to draw in cm; defaults to fit the content
+  showRoomNames?: boolean;
+  showDimensions?: boolean;
+  showCorners?: boolean;
+  showItems?: boolean; // furniture footprints
+  lengthFormat?: LengthFormat; // units for dimension labels
+}
+
+const DEFAULT_SCALE = 50;
+const DEFAULT_MARGIN = 10;
+
+const FONT_SIZE_MM = 3;
+const LABEL_GAP_MM = 3;
+const LINE_WEIGHT_MM = 0.35;
+const THIN_LINE_WEIGHT_MM = 0.18;
+
+const WALL_FILL = '#dddddd';
+const WALL_STROKE = '#555555';
+const ROOM_FILL = '#f3f4f6';
+const CORNER_FILL = '#999999';
+const TEXT_COLOR = '#222222';
+const ITEM_FILL = '#eadccd';
+const ITEM_STROKE = '#8b6f4e';
+
+const escapeXml = (text: string) =>
+  text.replace(/[<>&'"]/g, char => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', "'": '&apos;', '"': '&quot;' }[char]!));
+
+// Keep the output compact and stable
+const num = (value: number) => Number(value.toFixed(2)).toString();
+
+const pointsAttr = (points: Point2D[]) => points.map(p => `${num(p.x)},${num(p.y)}`).join(' ');
+
+/**
+ * Get the plan area covered by walls, their dimension labels, rooms and items
+ */
+export function getContentBounds(floorplan: FloorplanData, scale: number = DEFAULT_SCALE): PlanBounds | null {
+  const bounds = GeometryUtils.boundingBox([
+    ...Object.values(floorplan.corners),
+    ...Object.values(floorplan.items).flatMap(getItemFootprint),
+  ]);
+  if (!bounds) return null;
+
+  const mmToCm = scale / 10;
+  const maxThickness = Math.max(0, ...Object.values(floorplan.walls).map(wall => wall.thickness));
+  const pad = maxThickness / 2 + (LABEL_GAP_MM + FONT_SIZE_MM * 1.5) * mmToCm;
+  return {
+    minX: bounds.minX - pad,
+    minY: bounds.minY - pad,
+    maxX: bounds.maxX + pad,
+    maxY: bounds.maxY + pad,
+  };
+}
+
+/**
+ * Render the plan as an SVG document
+ */
+export function exportSvg(floorplan: FloorplanData, options: SvgExportOptions = {}): string {
+  const {
+    scale = DEFAULT_SCALE,
+    margin = DEFAULT_MARGIN,
+    showRoomNames = true,
+    showDimensions = true,
+    showCorners = true,
+    showItems = true,
+    lengthFormat = DEFAULT_CONFIG,
+  } = options;
+  const mmToCm = scale / 10;
+  const content = options.bounds ?? getContentBounds(floorplan, scale) ?? { minX: 0, minY: 0, maxX: 100, maxY: 100 };
+
+  // Expand the drawn area by the paper margin
+  const marginCm = margin * mmToCm;
+  const viewX = content.minX - marginCm;
+  const viewY = content.minY - marginCm;
+  const viewWidth = content.maxX - content.minX + 2 * marginCm;
+  const viewHeight = content.maxY - content.minY + 2 * marginCm;
+
+  const fontSize = FONT_SIZE_MM * mmToCm;
+  const lineWeight = LINE_WEIGHT_MM * mmToCm;
+  const thinLineWeight = THIN_LINE_WEIGHT_MM * mmToCm;
+  const { corners } = floorplan;
+
+  const roomsSvg: string[] = [];
+  const wallsSvg: string[] = [];
+  const openingsSvg: string[] = [];
+  const itemsSvg: string[] = [];
+  const labelsSvg: string[] = [];
+  const cornersSvg: string[] = [];
+
+  for (const room of Object.values(floorplan.rooms)) {
+    const points = room.corners.map(id => corners[id]).filter((c): c is Corner => !!c);
+    if (points.length < 3) continue;
+    roomsSvg.push(`<polygon id="room-${escapeXml(room.id)}" points="${pointsAttr(points)}" fill="${ROOM_FILL}" />`);
+    if (showRoomNames && room.name) {
+      const center = GeometryUtils.poleOfInaccessibility(points);
+      labelsSvg.push(
+        `<text x="${num(center.x)}" y="${num(center.y)}" font-size="${num(fontSize * 1.2)}" font-weight="bold">${escapeXml(room.name)}</text>`
+      );
+    }
+  }
+
+  for (const wall of Object.values(floorplan.walls)) {
+    const start = corners[wall.startCorner];
+    const end = corners[wall.endCorner];
+    if (!start || !end) continue;
+    const length = MathUtils.distance(start, end);
+    if (length === 0) continue;
+
+    const ux = (end.x - start.x) / length;
+    const uy = (end.y - start.y) / length;
+    const nx = -uy;
+    const ny = ux;
+    const half = wall.thickness / 2;
+    const pointAt = (along: number, across: number = 0): Point2D => ({
+      x: start.x + ux * along + nx * across,
+      y: start.y + uy * along + ny * across,
+    });
+
+    // Wall body at true thickness, with gaps for openings and round joints
+    // at the corners, matching the editor's drawing
+    const spans = getOpeningSpans(getWallOpenings(wall.id, floorplan.openings), length);
+    const body = getSolidSegments(spans, length).map(([from, to]) =>
+      `<polygon points="${pointsAttr([pointAt(from, -half), pointAt(to, -half), pointAt(to, half), pointAt(from, half)])}" />`
+    );
+    const joints = [start, end].map(c => `<circle cx="${num(c.x)}" cy="${num(c.y)}" r="${num(half)}" stroke="none" />`);
+    wallsSvg.push(`<g id="wall-${escapeXml(wall.id)}">${[...joints, ...body].join('')}</g>`);
+
+    for (const { opening, start: from, end: to } of spans) {
+      const jambs = [from, to].map(along => {
+        const a = pointAt(along, -half);
+        const b = pointAt(along, half);
+        return `M${num(a.x)},${num(a.y)} L${num(b.x)},${num(b.y)}`;
+      });
+      if (opening.type === OpeningType.WINDOW) {
+        const glazing = [-half / 3, 0, half / 3].map(across => {
+          const a = pointAt(from, across);
+          const b = pointAt(to, across);
+          return `M${num(a.x)},${num(a.y)} L${num(b.x)},${num(b.y)}`;
+        });
+        openingsSvg.push(`<path id="opening-${escapeXml(opening.id)}" d="${[...jambs, ...glazing].join(' ')}" />`);
+        continue;
+      }
+
+      // Door leaf drawn open at 90° with its swing arc
+      const width = to - from;
+      const hinge = pointAt(opening.hinge === 'start' ? from : to);
+      const closed = opening.hinge === 'start' ? { x: ux, y: uy } : { x: -ux, y: -uy };
+      const sign = (opening.swing === 'front' ? 1 : -1) * (opening.hinge === 'start' ? 1 : -1);
+      const leafEnd = { x: hinge.x - closed.y * sign * width, y: hinge.y + closed.x * sign * width };
+      const closedEnd = { x: hinge.x + closed.x * width, y: hinge.y + closed.y * width };
+      const sweep = sign > 0 ? 0 : 1;
+      openingsSvg.push(
+        `<g id="opening-${escapeXml(opening.id)}">` +
+        `<path d="${jambs.join(' ')} M${num(hinge.x)},${num(hinge.y)} L${num(leafEnd.x)},${num(leafEnd.y)}" />` +
+        `<path d="M${num(leafEnd.x)},${num(leafEnd.y)} A${num(width)},${num(width)} 0 0 ${sweep} ${num(closedEnd.x)},${num(closedEnd.y)}" stroke-dasharray="${num(thinLineWeight * 8)} ${num(thinLineWeight * 6)}" />` +
+        `</g>`
+      );
+    }
+
+    if (showDimensions) {
+      const label = pointAt(length / 2, half + LABEL_GAP_MM * mmToCm + fontSize / 2);
+      labelsSvg.push(`<text x="${num(label.x)}" y="${num(label.y)}" font-size="${num(fontSize)}">${escapeXml(formatLength(length, lengthFormat))}</text>`);
+    }
+  }
+
+  // Item footprints, with the front edge drawn heavier as in the editor
+  if (showItems) {
+    for (const item of Object.values(floorplan.items)) {
+      const footprint = getItemFootprint(item);
+      const [, , frontRight, frontLeft] = footprint;
+      itemsSvg.push(
+        `<g id="item-${escapeXml(item.id)}">` +
+        `<polygon points="${pointsAttr(footprint)}" />` +
+        `<path d="M${num(frontRight.x)},${num(frontRight.y)} L${num(frontLeft.x)},${num(frontLeft.y)}" stroke-width="${num(lineWeight)}" />` +
+        `</g>`
+      );
+    }
+  }
+
+  if (showCorners) {
+    for (const corner of Object.values(corners)) {
+      cornersSvg.push(`<circle cx="${num(corner.x)}" cy="${num(corner.y)}" r="${num(lineWeight * 1.5)}" />`);
+    }
+  }
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${num(viewWidth * 10 / scale)}mm" height="${num(viewHeight * 10 / scale)}mm" viewBox="${num(viewX)} ${num(viewY)} ${num(viewWidth)} ${num(viewHeight)}">`,
+    `<desc>Floor plan at 1:${scale}, plan units in cm</desc>`,
+    `<g id="rooms" stroke="none">${roomsSvg.join('')}</g>`,
+    `<g id="walls" fill="${WALL_FILL}" stroke="${WALL_STROKE}" stroke-width="${num(thinLineWeight)}">${wallsSvg.join('')}</g>`,
+    `<g id="openings" fill="none" stroke="${WALL_STROKE}" stroke-width="${num(thinLineWeight)}">${openingsSvg.join('')}</g>`,
+    `<g id="items" fill="${ITEM_FILL}" stroke="${ITEM_STROKE}" stroke-width="${num(thinLineWeight)}">${itemsSvg.join('')}</g>`,
+    `<g id="corners" fill="${CORNER_FILL}">${cornersSvg.join('')}</g>`,
+    `<g id="labels" fill="${TEXT_COLOR}" font-family="Inter, Arial, sans-serif" text-anchor="middle" dominant-baseline="middle">${labelsSvg.join('')}</g>`,
+    `</svg>`,
+  ].join('\n');
+}
@@ -0,0 +1,78 @@
+import { AppConfig, FloorplanData, ProjectFile, ProjectMetadata } from '@/types';
+import { detectVersion, migrateProject } from './migrations';
+import { PROJECT_FORMAT, PROJECT_VERSION } from './schema';
+import { validateProject, ValidationIssue } from './validate';
+
+export { PROJECT_FORMAT, PROJECT_VERSION, PROJECT_FILE_EXTENSION } from './schema';
+export { validateConfig } from './validate';
+export type { ValidationIssue } from './validate';
+
+/**
+ * Thrown when a project file can't be loaded. `issues` lists every invalid
+ * field with its path in the file.
+ */
+export class ProjectFileError extends Error {
+  issues: ValidationIssue[];
+
+  constructor(message: string, issues: ValidationIssue[] = []) {
+    super(issues.length > 0
+      ? `${message}:\n${issues.map(issue => `  ${issue.path}: ${issue.message}`).join('\n')}`
+      : message);
+    this.name = 'ProjectFileError';
+    this.issues = issues;
+  }
+}
+
+export function createProjectMetadata(name: string = 'Untitled'): ProjectMetadata {
+  const now = new Date().toISOString();
+  return { name, createdAt: now, updatedAt: now };
+}
+
+/**
+ * Serialize a project to the current file format
+ */
+export function serializeProject(
+  floorplan: FloorplanData,
+  config: AppConfig,
+  metadata: ProjectMetadata
+): string {
+  const project: ProjectFile = {
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    metadata: { ...metadata, updatedAt: new Date().toISOString() },
+    config,
+    floorplan,
+  };
+  return JSON.stringify(project, null, 2);
+}
+
+/**
+ * Parse, migrate and validate a project file. Throws a ProjectFileError
+ * describing everything wrong with the file if it can't be loaded.
+ */
+export function parseProject(data: string): ProjectFile {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(data);
+  } catch (error) {
+    throw new ProjectFileError(`Project file is not valid JSON (${(error as Error).message})`);
+  }
+
+  const version = detectVersion(raw);
+  if (version === null) {
+    throw new ProjectFileError('File is not a Home 3D project');
+  }
+  if (version > PROJECT_VERSION) {
+    throw new ProjectFileError(
+      `Project was saved by a newer version (file version ${version}, supported up to ${PROJECT_VERSION})`
+    );
+  }
+
+  const project = migrateProject(raw as Record<string, unknown>, version);
+  const issues = validateProject(project);
+  if (issues.length > 0) {
+    throw new ProjectFileError('Project file is invalid', issues);
+  }
+  // Validation has checked it matches the types
+  return project as unknown as ProjectFile;
+}
@@ -0,0 +1,70 @@
+import { DEFAULT_CONFIG } from '@/lib/config';
+import { PROJECT_FORMAT, PROJECT_VERSION } from './schema';
+import { isObject, RawObject } from './validate';
+
+// Migrations work on untyped JSON: older files don't match the current types
+type Migration = (project: RawObject) => RawObject;
+
+/**
+ * Migrations keyed by the version they upgrade from. Each one returns a
+ * project of the next version.
+ */
+const migrations: Record<number, Migration> = {
+  // v1 files were a bare FloorplanData without openings. Older builds could
+  // leave deleted walls in corners' adjacentWalls, so drop those too.
+  1: (floorplan) => {
+    const now = new Date().toISOString();
+    const walls = isObject(floorplan.walls) ? floorplan.walls : {};
+    const corners: RawObject = {};
+    Object.entries(isObject(floorplan.corners) ? floorplan.corners : {}).forEach(([id, corner]) => {
+      corners[id] = isObject(corner) && Array.isArray(corner.adjacentWalls)
+        ? { ...corner, adjacentWalls: corner.adjacentWalls.filter(wallId => typeof wallId === 'string' && !!walls[wallId]) }
+        : corner;
+    });
+    return {
+      format: PROJECT_FORMAT,
+      version: 2,
+      metadata: { name: 'Untitled', createdAt: now, updatedAt: now },
+      config: { ...DEFAULT_CONFIG },
+      floorplan: {
+        corners,
+        walls,
+        rooms: floorplan.rooms ?? {},
+        openings: {},
+        items: floorplan.items ?? {},
+      },
+    };
+  },
+
+  // v2 configs had no display units; keep the feet and inches they showed
+  2: (project) => ({
+    ...project,
+    version: 3,
+    // An invalid config is left for validation to report
+    config: isObject(project.config) ? { units: 'ft-in', precision: 0, ...project.config } : project.config,
+  }),
+};
+
+/**
+ * Detect the version of a parsed project file. Files without a version
+ * wrapper but with a corners record are the original bare format.
+ */
+export function detectVersion(data: unknown): number | null {
+  if (!isObject(data)) return null;
+  if (data.format === PROJECT_FORMAT && typeof data.version === 'number' && Number.isInteger(data.version)) return data.version;
+  if (!('format' in data) && !('version' in data) && typeof data.corners === 'object') return 1;
+  return null;
+}
+
+/**
+ * Upgrade a parsed project file to the current version, one step at a time
+ */
+export function migrateProject(data: RawObject, fromVersion: number): RawObject {
+  let project = data;
+  for (let version = fromVersion; version < PROJECT_VERSION; version++) {
+    const migration = migrations[version];
+    if (!migration) throw new Error(`No migration from project version ${version}`);
+    project = migration(project);
+  }
+  return project;
+}
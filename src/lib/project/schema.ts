@@ -0,0 +1,35 @@
+/**
+ * Home 3D project file format
+ *
+ * A project is saved as a single JSON document:
+ *
+ *   {
+ *     "format": "home-3d",
+ *     "version": 3,
+ *     "metadata": { "name": string, "createdAt": ISO date, "updatedAt": ISO date },
+ *     "config": AppConfig,
+ *     "floorplan": {
+ *       "corners":  { [id]: Corner },
+ *       "walls":    { [id]: Wall },
+ *       "rooms":    { [id]: Room },
+ *       "openings": { [id]: Opening },
+ *       "items":    { [id]: Item3D }
+ *     }
+ *   }
+ *
+ * All lengths are in centimetres. Records are keyed by the entity's own id,
+ * and every reference (wall corners, corner walls, room corners, opening
+ * walls, item rooms) must point at an entity in the same file.
+ *
+ * Version history:
+ *   1 - bare FloorplanData with corners, walls, rooms and items, no wrapper
+ *   2 - project wrapper with metadata and config; floorplan gains openings
+ *   3 - config gains units and precision; items may carry dimensions
+ *
+ * Whenever the types in src/types change shape, bump PROJECT_VERSION, add a
+ * migration from the previous version in migrations.ts and update the
+ * validator, so files saved by older builds keep opening.
+ */
+export const PROJECT_FORMAT = 'home-3d';
+export const PROJECT_VERSION = 3;
+export const PROJECT_FILE_EXTENSION = '.home3d.json';
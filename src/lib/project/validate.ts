@@ -0,0 +1,238 @@
+import { LengthUnit, OpeningType, RoomType } from '@/types';
+import { LENGTH_UNITS } from '@/lib/utils/units';
+import { PROJECT_FORMAT, PROJECT_VERSION } from './schema';
+
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+// Parsed JSON, before it is known to match the types
+export type RawObject = Record<string, unknown>;
+
+export const isObject = (value: unknown): value is RawObject =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * Collects issues while walking a parsed project, tracking the path of the
+ * field being checked (e.g. "floorplan.walls.w1.thickness")
+ */
+class Checker {
+  issues: ValidationIssue[] = [];
+
+  fail(path: string, message: string) {
+    this.issues.push({ path, message });
+  }
+
+  object(value: unknown, path: string): value is RawObject {
+    if (isObject(value)) return true;
+    this.fail(path, 'expected an object');
+    return false;
+  }
+
+  string(value: unknown, path: string, optional = false): boolean {
+    if (optional && value === undefined) return true;
+    if (typeof value === 'string') return true;
+    this.fail(path, 'expected a string');
+    return false;
+  }
+
+  boolean(value: unknown, path: string, optional = false): boolean {
+    if (optional && value === undefined) return true;
+    if (typeof value === 'boolean') return true;
+    this.fail(path, 'expected true or false');
+    return false;
+  }
+
+  number(value: unknown, path: string, { min, exclusiveMin }: { min?: number; exclusiveMin?: number } = {}): boolean {
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      this.fail(path, 'expected a number');
+      return false;
+    }
+    if (min !== undefined && value < min) {
+      this.fail(path, `must be at least ${min}, got ${value}`);
+      return false;
+    }
+    if (exclusiveMin !== undefined && value <= exclusiveMin) {
+      this.fail(path, `must be greater than ${exclusiveMin}, got ${value}`);
+      return false;
+    }
+    return true;
+  }
+
+  oneOf<T>(value: unknown, options: readonly T[], path: string): boolean {
+    if (options.includes(value as T)) return true;
+    this.fail(path, `expected one of ${options.map(o => JSON.stringify(o)).join(', ')}`);
+    return false;
+  }
+
+  date(value: unknown, path: string): boolean {
+    if (!this.string(value, path)) return false;
+    if (!Number.isNaN(Date.parse(value as string))) return true;
+    this.fail(path, 'expected an ISO 8601 date');
+    return false;
+  }
+
+  // Check each entity in a record keyed by id
+  record(value: unknown, path: string, check: (entity: RawObject, path: string) => void): RawObject {
+    if (!this.object(value, path)) return {};
+    for (const [key, entity] of Object.entries(value)) {
+      const entityPath = `${path}.${key}`;
+      if (!this.object(entity, entityPath)) continue;
+      if (entity.id !== key) this.fail(`${entityPath}.id`, `must match its key "${key}"`);
+      check(entity, entityPath);
+    }
+    return value;
+  }
+
+  reference(value: unknown, target: RawObject, path: string, kind: string): boolean {
+    if (!this.string(value, path)) return false;
+    if (target[value as string]) return true;
+    this.fail(path, `refers to missing ${kind} "${value}"`);
+    return false;
+  }
+
+  texture(value: unknown, path: string) {
+    if (value === undefined) return;
+    if (!this.object(value, path)) return;
+    this.string(value.url, `${path}.url`);
+    this.number(value.scale, `${path}.scale`);
+    this.boolean(value.stretch, `${path}.stretch`, true);
+  }
+
+  config(value: unknown, path: string) {
+    if (!this.object(value, path)) return;
+    for (const key of ['wallHeight', 'wallThickness', 'gridSize', 'snapTolerance']) {
+      this.number(value[key], `${path}.${key}`, { exclusiveMin: 0 });
+    }
+    this.oneOf(value.units, Object.keys(LENGTH_UNITS) as LengthUnit[], `${path}.units`);
+    this.number(value.precision, `${path}.precision`, { min: 0 });
+  }
+
+  point3D(value: unknown, path: string) {
+    if (!this.object(value, path)) return;
+    for (const axis of ['x', 'y', 'z']) this.number(value[axis], `${path}.${axis}`);
+  }
+}
+
+/**
+ * Validate settings on their own, e.g. as edited or as stored per user
+ */
+export function validateConfig(data: unknown, path: string = 'config'): ValidationIssue[] {
+  const check = new Checker();
+  check.config(data, path);
+  return check.issues;
+}
+
+/**
+ * Validate a project against the current schema version. Returns every
+ * problem found rather than stopping at the first, so a user can see all
+ * that is wrong with a file at once.
+ */
+export function validateProject(data: unknown): ValidationIssue[] {
+  const check = new Checker();
+  if (!check.object(data, '(root)')) return check.issues;
+
+  if (data.format !== PROJECT_FORMAT) check.fail('format', `expected "${PROJECT_FORMAT}"`);
+  if (data.version !== PROJECT_VERSION) check.fail('version', `expected ${PROJECT_VERSION}, got ${JSON.stringify(data.version)}`);
+
+  if (check.object(data.metadata, 'metadata')) {
+    check.string(data.metadata.name, 'metadata.name');
+    check.date(data.metadata.createdAt, 'metadata.createdAt');
+    check.date(data.metadata.updatedAt, 'metadata.updatedAt');
+  }
+
+  check.config(data.config, 'config');
+
+  if (!check.object(data.floorplan, 'floorplan')) return check.issues;
+  const floorplan = data.floorplan;
+
+  // Entity records first, so references can be checked against them
+  const corners = isObject(floorplan.corners) ? floorplan.corners : {};
+  const walls = isObject(floorplan.walls) ? floorplan.walls : {};
+  const rooms = isObject(floorplan.rooms) ? floorplan.rooms : {};
+
+  check.record(floorplan.corners, 'floorplan.corners', (corner, path) => {
+    check.number(corner.x, `${path}.x`);
+    check.number(corner.y, `${path}.y`);
+    if (!Array.isArray(corner.adjacentWalls)) {
+      check.fail(`${path}.adjacentWalls`, 'expected an array of wall ids');
+      return;
+    }
+    corner.adjacentWalls.forEach((wallId, index) =>
+      check.reference(wallId, walls, `${path}.adjacentWalls[${index}]`, 'wall')
+    );
+  });
+
+  check.record(floorplan.walls, 'floorplan.walls', (wall, path) => {
+    check.reference(wall.startCorner, corners, `${path}.startCorner`, 'corner');
+    check.reference(wall.endCorner, corners, `${path}.endCorner`, 'corner');
+    if (wall.startCorner === wall.endCorner) check.fail(`${path}.endCorner`, 'must differ from startCorner');
+    check.number(wall.thickness, `${path}.thickness`, { exclusiveMin: 0 });
+    check.number(wall.height, `${path}.height`, { exclusiveMin: 0 });
+    check.texture(wall.frontTexture, `${path}.frontTexture`);
+    check.texture(wall.backTexture, `${path}.backTexture`);
+  });
+
+  check.record(floorplan.rooms, 'floorplan.rooms', (room, path) => {
+    if (!Array.isArray(room.corners) || room.corners.length < 3) {
+      check.fail(`${path}.corners`, 'expected an array of at least 3 corner ids');
+    } else {
+      room.corners.forEach((cornerId, index) =>
+        check.reference(cornerId, corners, `${path}.corners[${index}]`, 'corner')
+      );
+    }
+    check.string(room.name, `${path}.name`, true);
+    check.texture(room.floorTexture, `${path}.floorTexture`);
+    if (room.type !== undefined) check.oneOf(room.type, Object.values(RoomType), `${path}.type`);
+    if (room.ceilingHeight !== undefined) check.number(room.ceilingHeight, `${path}.ceilingHeight`, { exclusiveMin: 0 });
+  });
+
+  check.record(floorplan.openings, 'floorplan.openings', (opening, path) => {
+    check.reference(opening.wallId, walls, `${path}.wallId`, 'wall');
+    check.oneOf(opening.type, Object.values(OpeningType), `${path}.type`);
+    check.number(opening.offset, `${path}.offset`, { min: 0 });
+    check.number(opening.width, `${path}.width`, { exclusiveMin: 0 });
+    check.number(opening.height, `${path}.height`, { exclusiveMin: 0 });
+    check.number(opening.sillHeight, `${path}.sillHeight`, { min: 0 });
+    check.oneOf(opening.hinge, ['start', 'end'], `${path}.hinge`);
+    check.oneOf(opening.swing, ['front', 'back'], `${path}.swing`);
+  });
+
+  check.record(floorplan.items, 'floorplan.items', (item, path) => {
+    check.string(item.name, `${path}.name`);
+    check.string(item.modelUrl, `${path}.modelUrl`);
+    check.point3D(item.position, `${path}.position`);
+    check.point3D(item.rotation, `${path}.rotation`);
+    check.point3D(item.scale, `${path}.scale`);
+    if (item.dimensions !== undefined && check.object(item.dimensions, `${path}.dimensions`)) {
+      for (const axis of ['width', 'depth', 'height'] as const) {
+        check.number(item.dimensions[axis], `${path}.dimensions.${axis}`, { exclusiveMin: 0 });
+      }
+    }
+    if (item.roomId !== undefined) check.reference(item.roomId, rooms, `${path}.roomId`, 'room');
+    if (item.attachment !== undefined && check.object(item.attachment, `${path}.attachment`)) {
+      check.reference(item.attachment.wallId, walls, `${path}.attachment.wallId`, 'wall');
+      check.oneOf(item.attachment.side, ['front', 'back'], `${path}.attachment.side`);
+      check.number(item.attachment.offset, `${path}.attachment.offset`);
+    }
+    if (check.object(item.metadata, `${path}.metadata`)) {
+      check.string(item.metadata.itemName, `${path}.metadata.itemName`);
+      check.string(item.metadata.itemType, `${path}.metadata.itemType`);
+      check.boolean(item.metadata.resizable, `${path}.metadata.resizable`);
+      check.string(item.metadata.category, `${path}.metadata.category`);
+      check.boolean(item.metadata.fixed, `${path}.metadata.fixed`, true);
+      if (item.metadata.elevation !== undefined) {
+        check.number(item.metadata.elevation, `${path}.metadata.elevation`, { min: 0 });
+      }
+      const { clearance } = item.metadata;
+      if (clearance !== undefined && check.object(clearance, `${path}.metadata.clearance`)) {
+        for (const side of ['front', 'back', 'left', 'right'] as const) {
+          if (clearance[side] !== undefined) check.number(clearance[side], `${path}.metadata.clearance.${side}`, { min: 0 });
+        }
+      }
+    }
+  });
+
+  return check.issues;
+}
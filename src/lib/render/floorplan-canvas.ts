@@ -0,0 +1,519 @@
+import { Corner, FloorplanData, Item3D, ObjectSnapKind, OpeningType, Point2D, Wall } from '@/types';
+import { MathUtils } from '@/lib/utils/math';
+import { getItemFootprint, ItemHandles } from '@/lib/utils/items';
+import { getClearanceZones } from '@/lib/utils/collisions';
+import { getOpeningSpans, getSolidSegments, getWallOpenings } from '@/lib/utils/openings';
+import { formatLength, LengthFormat } from '@/lib/utils/units';
+import { SnapGuide } from '@/lib/utils/snapping';
+
+// Drawing constants (based on blueprint3d)
+export const GRID_COLOR = '#d0d0d0'; // Made darker for better visibility
+export const GRID_WIDTH = 1;
+export const WALL_COLOR = '#dddddd';
+export const WALL_COLOR_HOVER = '#008cba';
+export const WALL_COLOR_SELECTED = '#f59e42';
+export const WALL_WIDTH = 5;
+export const WALL_WIDTH_HOVER = 7;
+export const CORNER_COLOR = '#cccccc';
+export const CORNER_COLOR_HOVER = '#008cba';
+export const CORNER_RADIUS = 0;
+export const CORNER_RADIUS_HOVER = 7;
+export const DELETE_COLOR = '#ff0000';
+export const GUIDE_COLOR_ALIGNMENT = '#f97316';
+export const GUIDE_COLOR_ANGLE = '#008cba';
+export const OBJECT_SNAP_COLOR = '#16a34a';
+export const SELECTION_COLOR = WALL_COLOR_SELECTED;
+export const SELECTION_FILL = 'rgba(245, 158, 66, 0.15)';
+export const MARQUEE_COLOR = '#008cba';
+export const MARQUEE_FILL = 'rgba(0, 140, 186, 0.08)';
+export const OBJECT_SNAP_SIZE = 7;
+export const ITEM_COLOR = '#8b6f4e';
+export const ITEM_FILL = 'rgba(200, 162, 124, 0.35)';
+export const ITEM_HANDLE_SIZE = 5;
+export const CONFLICT_COLOR = '#dc2626';
+export const CONFLICT_FILL = 'rgba(220, 38, 38, 0.3)';
+export const CLEARANCE_COLOR = '#9ca3af';
+
+const LABEL_FONT = 'bold 15px Inter, Arial, sans-serif';
+const ROOM_NAME_FONT = 'bold 14px Inter, Arial, sans-serif';
+const ROOM_DETAIL_FONT = '12px Inter, Arial, sans-serif';
+const ROOM_LINE_HEIGHT = 16;
+
+/**
+ * Maps plan coordinates (cm) onto a canvas. `pixelRatio` scales the parts
+ * drawn at a fixed on-screen size (labels, outlines, handles), so an export
+ * at a higher resolution keeps the same proportions as the editor.
+ */
+export interface CanvasView {
+  offsetX: number; // plan x at the canvas's left edge
+  offsetY: number; // plan y at the canvas's top edge
+  pixelsPerCm: number;
+  pixelRatio: number;
+}
+
+export interface WallStyle {
+  color: string;
+  showLabel: boolean;
+  lengthFormat: LengthFormat; // units for the dimension label
+}
+
+export function worldToCanvas(view: CanvasView, x: number, y: number): Point2D {
+  return {
+    x: (x - view.offsetX) * view.pixelsPerCm,
+    y: (y - view.offsetY) * view.pixelsPerCm,
+  };
+}
+
+/**
+ * Draw grid lines every `spacingCm` across the canvas
+ */
+export function drawGrid(ctx: CanvasRenderingContext2D, view: CanvasView, width: number, height: number, spacingCm: number) {
+  const spacingPx = spacingCm * view.pixelsPerCm;
+  // Only draw grid if spacing is reasonable (not too dense)
+  if (spacingPx <= 5 * view.pixelRatio) return;
+
+  const offsetX = (-view.offsetX * view.pixelsPerCm) % spacingPx;
+  const offsetY = (-view.offsetY * view.pixelsPerCm) % spacingPx;
+  ctx.strokeStyle = GRID_COLOR;
+  ctx.lineWidth = GRID_WIDTH * view.pixelRatio;
+  // Vertical lines
+  for (let x = offsetX; x <= width; x += spacingPx) {
+    ctx.beginPath();
+    ctx.moveTo(x, 0);
+    ctx.lineTo(x, height);
+    ctx.stroke();
+  }
+  // Horizontal lines
+  for (let y = offsetY; y <= height; y += spacingPx) {
+    ctx.beginPath();
+    ctx.moveTo(0, y);
+    ctx.lineTo(width, y);
+    ctx.stroke();
+  }
+}
+
+/**
+ * Get where a wall's dimension label sits on the canvas: beside the wall's
+ * midpoint, on the side of its normal
+ */
+export function getWallLabelPosition(view: CanvasView, start: Point2D, end: Point2D, thickness: number): Point2D | null {
+  const a = worldToCanvas(view, start.x, start.y);
+  const b = worldToCanvas(view, end.x, end.y);
+  const len = MathUtils.distance(a, b);
+  if (len === 0) return null;
+
+  const labelDist = thickness * view.pixelsPerCm + 16 * view.pixelRatio;
+  return {
+    x: (a.x + b.x) / 2 + (-(b.y - a.y) / len) * labelDist,
+    y: (a.y + b.y) / 2 + ((b.x - a.x) / len) * labelDist,
+  };
+}
+
+/**
+ * Measure the box behind a label drawn with drawLabel
+ */
+export function measureLabel(ctx: CanvasRenderingContext2D, view: CanvasView, text: string, x: number, y: number) {
+  ctx.save();
+  ctx.font = LABEL_FONT;
+  const textWidth = ctx.measureText(text).width * view.pixelRatio;
+  ctx.restore();
+  const padX = 6 * view.pixelRatio;
+  const halfHeight = 13 * view.pixelRatio;
+  return { left: x - textWidth / 2 - padX, right: x + textWidth / 2 + padX, top: y - halfHeight, bottom: y + halfHeight };
+}
+
+/**
+ * Draw a dimension label on a white box, centred on (x, y)
+ */
+export function drawLabel(ctx: CanvasRenderingContext2D, view: CanvasView, text: string, x: number, y: number) {
+  const box = measureLabel(ctx, view, text, x, y);
+  ctx.save();
+  ctx.fillStyle = 'white';
+  ctx.globalAlpha = 0.85;
+  ctx.fillRect(box.left, box.top, box.right - box.left, box.bottom - box.top);
+  ctx.globalAlpha = 1.0;
+  ctx.translate(x, y);
+  ctx.scale(view.pixelRatio, view.pixelRatio);
+  ctx.font = LABEL_FONT;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillStyle = '#222';
+  ctx.strokeStyle = 'white';
+  ctx.lineWidth = 3;
+  ctx.strokeText(text, 0, 0);
+  ctx.fillText(text, 0, 0);
+  ctx.restore();
+}
+
+/**
+ * Draw a room's label centred on a plan point: its name in bold, then a
+ * smaller line for each detail
+ */
+export function drawRoomLabel(ctx: CanvasRenderingContext2D, view: CanvasView, point: Point2D, name: string, details: string[]) {
+  const center = worldToCanvas(view, point.x, point.y);
+  const lines = [name, ...details];
+  ctx.save();
+  ctx.translate(center.x, center.y);
+  ctx.scale(view.pixelRatio, view.pixelRatio);
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillStyle = '#374151';
+  ctx.strokeStyle = 'white';
+  ctx.lineWidth = 3;
+  lines.forEach((line, index) => {
+    const y = (index - (lines.length - 1) / 2) * ROOM_LINE_HEIGHT;
+    ctx.font = index === 0 ? ROOM_NAME_FONT : ROOM_DETAIL_FONT;
+    ctx.strokeText(line, 0, y);
+    ctx.fillText(line, 0, y);
+  });
+  ctx.restore();
+}
+
+/**
+ * Draw a wall as a double-lined band at its true thickness, with gaps,
+ * door swings and window glazing for its openings, and its length label
+ */
+export function drawWall(ctx: CanvasRenderingContext2D, view: CanvasView, wall: Wall, floorplan: FloorplanData, style: WallStyle) {
+  const startCorner = floorplan.corners[wall.startCorner];
+  const endCorner = floorplan.corners[wall.endCorner];
+  if (!startCorner || !endCorner) return;
+
+  const start = worldToCanvas(view, startCorner.x, startCorner.y);
+  const end = worldToCanvas(view, endCorner.x, endCorner.y);
+  const ratio = view.pixelRatio;
+
+  // Wall thickness in canvas px (scale with zoom)
+  const wallThicknessCm = wall.thickness || 10;
+  const wallThicknessPx = wallThicknessCm * view.pixelsPerCm;
+  const doubleLineGapPx = Math.max(4 * ratio, wallThicknessPx * 0.5);
+
+  // Direction vector
+  const dx = end.x - start.x;
+  const dy = end.y - start.y;
+  const len = Math.sqrt(dx * dx + dy * dy);
+  if (len === 0) return;
+  const nx = -dy / len; // normal x
+  const ny = dx / len;  // normal y
+
+  // Split the wall into solid stretches around its openings
+  const wallLengthCm = MathUtils.distance(startCorner, endCorner);
+  const spans = getOpeningSpans(getWallOpenings(wall.id, floorplan.openings), wallLengthCm);
+  const segments = getSolidSegments(spans, wallLengthCm);
+  const ux = dx / len;
+  const uy = dy / len;
+  const pointAt = (cm: number, offsetPx: number = 0) => ({
+    x: start.x + ux * cm * view.pixelsPerCm + nx * offsetPx,
+    y: start.y + uy * cm * view.pixelsPerCm + ny * offsetPx,
+  });
+  // Stroke the solid stretches, rounding only the real wall ends so the
+  // jambs of openings stay square
+  const strokeSolid = (lineWidth: number, offsetPx: number = 0, roundEnds: boolean = true) => {
+    for (const [from, to] of segments) {
+      const a = pointAt(from, offsetPx);
+      const b = pointAt(to, offsetPx);
+      ctx.lineWidth = lineWidth;
+      ctx.beginPath();
+      ctx.moveTo(a.x, a.y);
+      ctx.lineTo(b.x, b.y);
+      ctx.stroke();
+      if (!roundEnds) continue;
+      ctx.fillStyle = ctx.strokeStyle;
+      for (const [cm, p] of [[from, a], [to, b]] as const) {
+        if (cm > 0 && Math.abs(cm - wallLengthCm) > 0.01) continue;
+        ctx.beginPath();
+        ctx.arc(p.x, p.y, lineWidth / 2, 0, 2 * Math.PI);
+        ctx.fill();
+      }
+    }
+  };
+
+  // Outer lines (double wall)
+  ctx.save();
+  ctx.lineCap = 'butt';
+  // Shadow/outline
+  ctx.strokeStyle = 'rgba(0,0,0,0.10)';
+  strokeSolid(wallThicknessPx + 6 * ratio);
+
+  // Main fill (between double lines)
+  ctx.strokeStyle = style.color;
+  strokeSolid(wallThicknessPx);
+
+  // Double lines (edges)
+  ctx.strokeStyle = '#bbb';
+  for (const offset of [-doubleLineGapPx/2, doubleLineGapPx/2]) {
+    strokeSolid(2 * ratio, offset, false);
+  }
+
+  // Openings: window glazing across the gap, door leaf and swing arc
+  for (const span of spans) {
+    const { opening } = span;
+    const halfPx = wallThicknessPx / 2;
+    ctx.strokeStyle = '#555';
+    ctx.lineWidth = 1.5 * ratio;
+    // Jambs
+    for (const cm of [span.start, span.end]) {
+      const a = pointAt(cm, -halfPx);
+      const b = pointAt(cm, halfPx);
+      ctx.beginPath();
+      ctx.moveTo(a.x, a.y);
+      ctx.lineTo(b.x, b.y);
+      ctx.stroke();
+    }
+
+    if (opening.type === OpeningType.WINDOW) {
+      for (const offset of [-halfPx / 3, 0, halfPx / 3]) {
+        const a = pointAt(span.start, offset);
+        const b = pointAt(span.end, offset);
+        ctx.beginPath();
+        ctx.moveTo(a.x, a.y);
+        ctx.lineTo(b.x, b.y);
+        ctx.stroke();
+      }
+      continue;
+    }
+
+    // Door: the leaf swings 90° from closed (along the wall) to open
+    const hingeCm = opening.hinge === 'start' ? span.start : span.end;
+    const hinge = pointAt(hingeCm);
+    const widthPx = (span.end - span.start) * view.pixelsPerCm;
+    const closedX = opening.hinge === 'start' ? ux : -ux;
+    const closedY = opening.hinge === 'start' ? uy : -uy;
+    const sign = (opening.swing === 'front' ? 1 : -1) * (opening.hinge === 'start' ? 1 : -1);
+    const openX = -closedY * sign;
+    const openY = closedX * sign;
+    ctx.beginPath();
+    ctx.moveTo(hinge.x, hinge.y);
+    ctx.lineTo(hinge.x + openX * widthPx, hinge.y + openY * widthPx);
+    ctx.stroke();
+    ctx.setLineDash([4 * ratio, 3 * ratio]);
+    ctx.beginPath();
+    for (let step = 0; step <= 16; step++) {
+      const theta = (step / 16) * (Math.PI / 2);
+      const x = hinge.x + widthPx * (Math.cos(theta) * closedX + Math.sin(theta) * openX);
+      const y = hinge.y + widthPx * (Math.cos(theta) * closedY + Math.sin(theta) * openY);
+      if (step === 0) ctx.moveTo(x, y);
+      else ctx.lineTo(x, y);
+    }
+    ctx.stroke();
+    ctx.setLineDash([]);
+  }
+  ctx.restore();
+
+  // Draw dimension label (centered above wall)
+  if (!style.showLabel) return;
+  const label = getWallLabelPosition(view, startCorner, endCorner, wallThicknessCm);
+  if (label) drawLabel(ctx, view, formatLength(wallLengthCm, style.lengthFormat), label.x, label.y);
+}
+
+/**
+ * Draw a corner handle
+ */
+export function drawCorner(ctx: CanvasRenderingContext2D, view: CanvasView, corner: Corner, radius: number, color: string) {
+  if (radius <= 0) return;
+  const pos = worldToCanvas(view, corner.x, corner.y);
+  ctx.fillStyle = color;
+  ctx.beginPath();
+  ctx.arc(pos.x, pos.y, radius * view.pixelRatio, 0, 2 * Math.PI);
+  ctx.fill();
+}
+
+const GUIDE_COLORS: Record<SnapGuide['kind'], string> = {
+  angle: GUIDE_COLOR_ANGLE,
+  alignment: GUIDE_COLOR_ALIGNMENT,
+  extension: OBJECT_SNAP_COLOR,
+};
+
+/**
+ * Draw dashed snap guides: alignment with other corners, snapped angles and
+ * wall extensions
+ */
+export function drawSnapGuides(ctx: CanvasRenderingContext2D, view: CanvasView, guides: SnapGuide[]) {
+  ctx.save();
+  ctx.lineWidth = 1 * view.pixelRatio;
+  ctx.setLineDash([6 * view.pixelRatio, 4 * view.pixelRatio]);
+  for (const guide of guides) {
+    const from = worldToCanvas(view, guide.from.x, guide.from.y);
+    const to = worldToCanvas(view, guide.to.x, guide.to.y);
+    ctx.strokeStyle = GUIDE_COLORS[guide.kind];
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(to.x, to.y);
+    ctx.stroke();
+  }
+  ctx.restore();
+}
+
+/**
+ * Draw the glyph marking an object snap, CAD style: a triangle on a
+ * midpoint, a right-angle mark on a perpendicular foot, an hourglass on a
+ * point along a wall and a cross on a wall's extension
+ */
+export function drawSnapGlyph(ctx: CanvasRenderingContext2D, view: CanvasView, kind: ObjectSnapKind, point: Point2D) {
+  const { x, y } = worldToCanvas(view, point.x, point.y);
+  const r = OBJECT_SNAP_SIZE * view.pixelRatio;
+  ctx.save();
+  ctx.strokeStyle = OBJECT_SNAP_COLOR;
+  ctx.lineWidth = 2 * view.pixelRatio;
+  ctx.beginPath();
+  switch (kind) {
+    case 'midpoint':
+      ctx.moveTo(x, y - r);
+      ctx.lineTo(x + r, y + r);
+      ctx.lineTo(x - r, y + r);
+      ctx.closePath();
+      break;
+    case 'perpendicular':
+      ctx.moveTo(x - r, y - r);
+      ctx.lineTo(x - r, y + r);
+      ctx.lineTo(x + r, y + r);
+      ctx.moveTo(x - r, y);
+      ctx.lineTo(x, y);
+      ctx.lineTo(x, y + r);
+      break;
+    case 'nearest':
+      ctx.moveTo(x - r, y - r);
+      ctx.lineTo(x + r, y - r);
+      ctx.lineTo(x - r, y + r);
+      ctx.lineTo(x + r, y + r);
+      ctx.closePath();
+      break;
+    case 'extension':
+      ctx.moveTo(x - r, y - r);
+      ctx.lineTo(x + r, y + r);
+      ctx.moveTo(x + r, y - r);
+      ctx.lineTo(x - r, y + r);
+      break;
+  }
+  ctx.stroke();
+  ctx.restore();
+}
+
+/**
+ * Fill and/or outline a closed polygon given in plan coordinates
+ */
+export function drawPolygon(
+  ctx: CanvasRenderingContext2D,
+  view: CanvasView,
+  points: Point2D[],
+  fill: string | null,
+  stroke: string | null
+) {
+  if (points.length < 3) return;
+  ctx.save();
+  ctx.beginPath();
+  points.forEach((point, index) => {
+    const pos = worldToCanvas(view, point.x, point.y);
+    if (index === 0) ctx.moveTo(pos.x, pos.y);
+    else ctx.lineTo(pos.x, pos.y);
+  });
+  ctx.closePath();
+  if (fill) {
+    ctx.fillStyle = fill;
+    ctx.fill();
+  }
+  if (stroke) {
+    ctx.strokeStyle = stroke;
+    ctx.lineWidth = 2 * view.pixelRatio;
+    ctx.stroke();
+  }
+  ctx.restore();
+}
+
+/**
+ * Draw the rubber band of a box selection between two plan points
+ */
+export function drawMarquee(ctx: CanvasRenderingContext2D, view: CanvasView, from: Point2D, to: Point2D) {
+  const a = worldToCanvas(view, from.x, from.y);
+  const b = worldToCanvas(view, to.x, to.y);
+  ctx.save();
+  ctx.fillStyle = MARQUEE_FILL;
+  ctx.fillRect(Math.min(a.x, b.x), Math.min(a.y, b.y), Math.abs(b.x - a.x), Math.abs(b.y - a.y));
+  ctx.strokeStyle = MARQUEE_COLOR;
+  ctx.lineWidth = 1 * view.pixelRatio;
+  ctx.setLineDash([4 * view.pixelRatio, 3 * view.pixelRatio]);
+  ctx.strokeRect(Math.min(a.x, b.x), Math.min(a.y, b.y), Math.abs(b.x - a.x), Math.abs(b.y - a.y));
+  ctx.restore();
+}
+
+/**
+ * Draw an item's footprint from above, with its front edge drawn heavier
+ */
+export function drawItem(
+  ctx: CanvasRenderingContext2D,
+  view: CanvasView,
+  item: Item3D,
+  stroke: string = ITEM_COLOR,
+  fill: string = ITEM_FILL
+) {
+  const footprint = getItemFootprint(item);
+  drawPolygon(ctx, view, footprint, fill, null);
+
+  const points = footprint.map(point => worldToCanvas(view, point.x, point.y));
+  ctx.save();
+  ctx.strokeStyle = stroke;
+  ctx.lineWidth = 1.5 * view.pixelRatio;
+  ctx.beginPath();
+  points.forEach((point, index) => (index === 0 ? ctx.moveTo(point.x, point.y) : ctx.lineTo(point.x, point.y)));
+  ctx.closePath();
+  ctx.stroke();
+  // The last two corners are the front (+z) edge
+  ctx.lineWidth = 4 * view.pixelRatio;
+  ctx.beginPath();
+  ctx.moveTo(points[2].x, points[2].y);
+  ctx.lineTo(points[3].x, points[3].y);
+  ctx.stroke();
+  ctx.restore();
+}
+
+/**
+ * Draw an item's clearance zones as dashed outlines, in red when something
+ * stands in them
+ */
+export function drawClearanceZones(ctx: CanvasRenderingContext2D, view: CanvasView, item: Item3D, blocked: boolean) {
+  const color = blocked ? CONFLICT_COLOR : CLEARANCE_COLOR;
+  ctx.save();
+  ctx.strokeStyle = color;
+  ctx.lineWidth = 1 * view.pixelRatio;
+  ctx.setLineDash([4 * view.pixelRatio, 4 * view.pixelRatio]);
+  for (const zone of getClearanceZones(item)) {
+    ctx.beginPath();
+    zone.forEach((point, index) => {
+      const pos = worldToCanvas(view, point.x, point.y);
+      if (index === 0) ctx.moveTo(pos.x, pos.y);
+      else ctx.lineTo(pos.x, pos.y);
+    });
+    ctx.closePath();
+    ctx.stroke();
+  }
+  ctx.restore();
+}
+
+/**
+ * Draw the rotation handle of a selected item and, when it can be resized,
+ * a handle on each corner
+ */
+export function drawItemHandles(ctx: CanvasRenderingContext2D, view: CanvasView, handles: ItemHandles, resizable: boolean) {
+  const size = ITEM_HANDLE_SIZE * view.pixelRatio;
+  const back = worldToCanvas(view, handles.backCenter.x, handles.backCenter.y);
+  const rotate = worldToCanvas(view, handles.rotate.x, handles.rotate.y);
+  ctx.save();
+  ctx.strokeStyle = SELECTION_COLOR;
+  ctx.fillStyle = 'white';
+  ctx.lineWidth = 1.5 * view.pixelRatio;
+  ctx.beginPath();
+  ctx.moveTo(back.x, back.y);
+  ctx.lineTo(rotate.x, rotate.y);
+  ctx.stroke();
+  ctx.beginPath();
+  ctx.arc(rotate.x, rotate.y, size, 0, 2 * Math.PI);
+  ctx.fill();
+  ctx.stroke();
+  if (resizable) {
+    for (const corner of handles.resize) {
+      const pos = worldToCanvas(view, corner.x, corner.y);
+      ctx.fillRect(pos.x - size, pos.y - size, size * 2, size * 2);
+      ctx.strokeRect(pos.x - size, pos.y - size, size * 2, size * 2);
+    }
+  }
+  ctx.restore();
+}
@@ -0,0 +1,50 @@
+import * as THREE from 'three';
+import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
+
+// Item models three can load here; blueprint3d's legacy JSON models are not
+const LOADABLE_MODEL = /\.(glb|gltf)(\?|#|$)/i;
+
+/**
+ * Loads each texture and model once, and tolerates failures: anything that
+ * does not load resolves to null, for the caller to stand in for. Models are
+ * cloned for each use; textures are shared and should be cloned before
+ * changing their settings.
+ */
+export class AssetCache {
+  private textures = new Map<string, Promise<THREE.Texture | null>>();
+  private models = new Map<string, Promise<THREE.Object3D | null>>();
+  private textureLoader = new THREE.TextureLoader();
+  private gltfLoader = new GLTFLoader();
+
+  texture(url: string): Promise<THREE.Texture | null> {
+    if (!this.textures.has(url)) {
+      this.textures.set(url, this.textureLoader.loadAsync(url).catch(error => {
+        console.warn(`Could not load texture ${url}:`, error);
+        return null;
+      }));
+    }
+    return this.textures.get(url)!;
+  }
+
+  async model(url: string): Promise<THREE.Object3D | null> {
+    // No url means no model, not a failed load
+    if (!url || !LOADABLE_MODEL.test(url)) return null;
+    if (!this.models.has(url)) {
+      this.models.set(url, this.gltfLoader.loadAsync(url).then(gltf => gltf.scene, error => {
+        console.warn(`Could not load model ${url}:`, error);
+        return null;
+      }));
+    }
+    const model = await this.models.get(url)!;
+    return model ? model.clone(true) : null;
+  }
+}
+
+/**
+ * Move a model so its bounding box is centred on its origin. Item positions
+ * are the model's centre, as in blueprint3d.
+ */
+export function centerModel(model: THREE.Object3D) {
+  const center = new THREE.Box3().setFromObject(model).getCenter(new THREE.Vector3());
+  model.position.sub(center);
+}
@@ -0,0 +1,173 @@
+import * as THREE from 'three';
+import { Corner, Opening, Room, Texture, Wall, Point2D } from '@/types';
+import { GeometryUtils, MathUtils } from '@/lib/utils/math';
+import { getOpeningSpans } from '@/lib/utils/openings';
+import { ROOM_TYPES } from '@/lib/utils/rooms';
+
+// Plan coordinates are in cm with y pointing down the screen. In 3D the plan
+// lies on the XZ plane (plan y becomes z) and y points up, as in blueprint3d.
+
+// Base colours of untextured surfaces
+export const WALL_COLOR = '#f5f5f5';
+export const FLOOR_COLOR = '#d9c3a5';
+export const CEILING_COLOR = '#ffffff';
+
+// Floor colour of an untextured room, from its type
+export const getFloorColor = (room: Room): string => (room.type ? ROOM_TYPES[room.type].floorColor : FLOOR_COLOR);
+
+export interface WallPlacement {
+  position: THREE.Vector3;
+  rotationY: number;
+  length: number;
+}
+
+/**
+ * Convert a plan point to a 3D point at the given elevation
+ */
+export function planToWorld(point: Point2D, elevation: number = 0): THREE.Vector3 {
+  return new THREE.Vector3(point.x, elevation, point.y);
+}
+
+/**
+ * Get the position, rotation and length that place a wall between its
+ * corners. The wall's local x axis runs from the start to the end corner.
+ */
+export function getWallPlacement(wall: Wall, corners: Record<string, Corner>): WallPlacement | null {
+  const start = corners[wall.startCorner];
+  const end = corners[wall.endCorner];
+  if (!start || !end) return null;
+
+  const length = MathUtils.distance(start, end);
+  if (length === 0) return null;
+
+  return {
+    position: planToWorld(start),
+    rotationY: -MathUtils.angle(start, end),
+    length,
+  };
+}
+
+/**
+ * Create the extruded body of a wall in wall-local space: x along the wall,
+ * y up and z across the thickness, centred on the wall's axis. Openings that
+ * reach the floor are cut as notches in the outline, the rest as holes.
+ */
+export function createWallGeometry(wall: Wall, length: number, openings: Opening[] = []): THREE.BufferGeometry {
+  // Keep a sliver of wall above every opening so the outline stays one piece
+  const maxTop = Math.max(0, wall.height - 1);
+  const spans = getOpeningSpans(openings, length);
+
+  const shape = new THREE.Shape();
+  shape.moveTo(0, 0);
+  for (const { opening, start, end } of spans) {
+    if (opening.sillHeight > 0) continue;
+    const top = Math.min(opening.height, maxTop);
+    shape.lineTo(start, 0);
+    shape.lineTo(start, top);
+    shape.lineTo(end, top);
+    shape.lineTo(end, 0);
+  }
+  shape.lineTo(length, 0);
+  shape.lineTo(length, wall.height);
+  shape.lineTo(0, wall.height);
+  shape.closePath();
+
+  for (const { opening, start, end } of spans) {
+    if (opening.sillHeight <= 0) continue;
+    const bottom = Math.min(opening.sillHeight, maxTop);
+    const top = Math.min(opening.sillHeight + opening.height, maxTop);
+    if (top <= bottom) continue;
+    const hole = new THREE.Path();
+    hole.moveTo(start, bottom);
+    hole.lineTo(end, bottom);
+    hole.lineTo(end, top);
+    hole.lineTo(start, top);
+    hole.closePath();
+    shape.holes.push(hole);
+  }
+
+  const geometry = new THREE.ExtrudeGeometry(shape, {
+    depth: wall.thickness,
+    bevelEnabled: false,
+  });
+  geometry.translate(0, 0, -wall.thickness / 2);
+  return geometry;
+}
+
+/**
+ * Give each side of a wall its own material. ExtrudeGeometry puts both faces
+ * (the lids, at -z and +z) in group 0 and the edges in group 1; local +z is
+ * the wall's front.
+ */
+export function splitWallFaces(geometry: THREE.BufferGeometry) {
+  const [lids, edges] = geometry.groups;
+  if (!lids || !edges) return;
+  const half = lids.count / 2;
+  const firstIsBack = geometry.getAttribute('position').getZ(lids.start) < 0;
+  geometry.clearGroups();
+  geometry.addGroup(lids.start, half, firstIsBack ? 0 : 1);
+  geometry.addGroup(lids.start + half, half, firstIsBack ? 1 : 0);
+  geometry.addGroup(edges.start, edges.count, 2);
+}
+
+/**
+ * Set up a surface texture to wrap. UVs of the generated geometry are in plan
+ * centimetres, so a texture repeats every `scale` cm, or is stretched over
+ * `size` when it asks to be (blueprint3d's convention for wall textures).
+ */
+export function setTextureRepeat(map: THREE.Texture, texture: Texture, size: { width: number; height: number }) {
+  map.wrapS = THREE.RepeatWrapping;
+  map.wrapT = THREE.RepeatWrapping;
+  map.colorSpace = THREE.SRGBColorSpace;
+  if (texture.stretch || texture.scale <= 0) {
+    map.repeat.set(1 / size.width, 1 / size.height);
+  } else {
+    map.repeat.set(1 / texture.scale, 1 / texture.scale);
+  }
+  map.needsUpdate = true;
+}
+
+function createRoomShape(room: Room, corners: Record<string, Corner>, flipY: boolean): THREE.Shape | null {
+  const points = room.corners
+    .map(id => corners[id])
+    .filter((corner): corner is Corner => !!corner);
+  if (points.length < 3) return null;
+  return new THREE.Shape(points.map(point => new THREE.Vector2(point.x, flipY ? -point.y : point.y)));
+}
+
+/**
+ * Create a flat floor for a room. The geometry is built in the XY plane and
+ * must be rotated by -90° around x to lie on the floor (see FLOOR_ROTATION_X).
+ */
+export function createFloorGeometry(room: Room, corners: Record<string, Corner>): THREE.BufferGeometry | null {
+  // Negate y so that after rotating onto the floor plan y maps to +z
+  const shape = createRoomShape(room, corners, true);
+  return shape ? new THREE.ShapeGeometry(shape) : null;
+}
+
+export const FLOOR_ROTATION_X = -Math.PI / 2;
+
+/**
+ * Create a flat ceiling for a room, facing down. Like the floor it is built
+ * in the XY plane; rotate it by CEILING_ROTATION_X and raise it to the
+ * ceiling height.
+ */
+export function createCeilingGeometry(room: Room, corners: Record<string, Corner>): THREE.BufferGeometry | null {
+  const shape = createRoomShape(room, corners, false);
+  return shape ? new THREE.ShapeGeometry(shape) : null;
+}
+
+export const CEILING_ROTATION_X = Math.PI / 2;
+
+/**
+ * Get the plan's bounding box centre and size, for framing the camera
+ */
+export function getPlanBounds(corners: Record<string, Corner>): { center: Point2D; size: number } {
+  const bounds = GeometryUtils.boundingBox(Object.values(corners));
+  if (!bounds) return { center: { x: 0, y: 0 }, size: 1000 };
+
+  return {
+    center: { x: (bounds.minX + bounds.maxX) / 2, y: (bounds.minY + bounds.maxY) / 2 },
+    size: Math.max(bounds.maxX - bounds.minX, bounds.maxY - bounds.minY, 500),
+  };
+}
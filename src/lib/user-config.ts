@@ -0,0 +1,38 @@
+import { AppConfig } from '@/types';
+import { DEFAULT_CONFIG } from '@/lib/config';
+import { validateConfig } from '@/lib/project';
+
+/**
+ * The user's own default settings, kept in localStorage so new projects start
+ * with them. A project file carries its own copy, which wins when it's
+ * opened; only settings the user edits are stored back here.
+ */
+
+const USER_CONFIG_KEY = 'home-3d:config';
+
+/**
+ * Read the stored settings, falling back to the built-in defaults when there
+ * are none, they're invalid, or storage isn't available (e.g. on the server)
+ */
+export function loadUserConfig(): AppConfig {
+  if (typeof window === 'undefined') return DEFAULT_CONFIG;
+  try {
+    const stored = window.localStorage.getItem(USER_CONFIG_KEY);
+    if (!stored) return DEFAULT_CONFIG;
+    // Settings added since they were stored take their defaults
+    const config = { ...DEFAULT_CONFIG, ...JSON.parse(stored) };
+    return validateConfig(config).length === 0 ? config : DEFAULT_CONFIG;
+  } catch (error) {
+    console.warn('Could not read the saved settings:', error);
+    return DEFAULT_CONFIG;
+  }
+}
+
+export function saveUserConfig(config: AppConfig) {
+  if (typeof window === 'undefined') return;
+  try {
+    window.localStorage.setItem(USER_CONFIG_KEY, JSON.stringify(config));
+  } catch (error) {
+    console.warn('Could not save the settings:', error);
+  }
+}
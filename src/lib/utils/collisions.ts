@@ -0,0 +1,207 @@
+import { FloorplanData, Item3D, Opening, OpeningType, Point2D, Wall } from '@/types';
+import { GeometryUtils, MathUtils } from './math';
+import { getItemFootprint, getItemSize } from './items';
+import { getOpeningSpans, getSolidSegments, getWallOpenings } from './openings';
+
+/**
+ * Collision and clearance checks for furniture: item footprints against wall
+ * bodies, against each other and against the floor area doors swing through,
+ * and the clearance zones items ask for against walls and other items.
+ *
+ * Shapes are convex polygons on the plan, in cm. Heights matter only where
+ * they obviously should: a wall cabinet doesn't collide with the desk under
+ * it, and a clearance zone is floor space, so only items standing on the
+ * floor block it.
+ */
+
+export type ConflictKind = 'wall' | 'item' | 'door';
+
+export interface Conflict {
+  kind: ConflictKind; // what the item runs into
+  itemId: string;
+  otherId: string; // the wall, item or door (opening) id, as kind says
+  clearance: boolean; // whether it's the item's clearance zone that's blocked
+}
+
+// Shapes may touch, e.g. a wardrobe standing against a wall, without conflict
+const OVERLAP_TOLERANCE = 0.5; // cm
+const DOOR_ARC_STEPS = 8;
+
+interface VerticalRange {
+  bottom: number;
+  top: number;
+}
+
+const getItemRange = (item: Item3D): VerticalRange => {
+  const { height } = getItemSize(item);
+  return { bottom: item.position.y - height / 2, top: item.position.y + height / 2 };
+};
+
+const standsOnFloor = (item: Item3D) => getItemRange(item).bottom <= OVERLAP_TOLERANCE;
+
+const rangesOverlap = (a: VerticalRange, b: VerticalRange) =>
+  Math.min(a.top, b.top) - Math.max(a.bottom, b.bottom) > OVERLAP_TOLERANCE;
+
+const overlapsAny = (shape: Point2D[], shapes: Point2D[][]) =>
+  shapes.some(other => GeometryUtils.convexPolygonsOverlap(shape, other, OVERLAP_TOLERANCE));
+
+// A band `thickness` wide along a wall's centre line between two distances
+// from its start
+const getWallBand = (start: Point2D, end: Point2D, from: number, to: number, thickness: number): Point2D[] => {
+  const length = MathUtils.distance(start, end);
+  const ux = (end.x - start.x) / length;
+  const uy = (end.y - start.y) / length;
+  const nx = (-uy * thickness) / 2;
+  const ny = (ux * thickness) / 2;
+  const at = (cm: number) => ({ x: start.x + ux * cm, y: start.y + uy * cm });
+  const a = at(from);
+  const b = at(to);
+  return [
+    { x: a.x + nx, y: a.y + ny },
+    { x: b.x + nx, y: b.y + ny },
+    { x: b.x - nx, y: b.y - ny },
+    { x: a.x - nx, y: a.y - ny },
+  ];
+};
+
+/**
+ * Get the solid body of a wall at its true thickness, as one band per solid
+ * stretch. Door gaps are left open; windows have wall below their sills, so
+ * they count as solid.
+ */
+export function getWallBody(wall: Wall, floorplan: FloorplanData): Point2D[][] {
+  const start = floorplan.corners[wall.startCorner];
+  const end = floorplan.corners[wall.endCorner];
+  if (!start || !end) return [];
+  const length = MathUtils.distance(start, end);
+  if (length === 0) return [];
+
+  const doors = getWallOpenings(wall.id, floorplan.openings).filter(opening => opening.type === OpeningType.DOOR);
+  const segments = getSolidSegments(getOpeningSpans(doors, length), length);
+  return segments.map(([from, to]) => getWallBand(start, end, from, to, wall.thickness));
+}
+
+/**
+ * Get the floor area a door needs: its gap through the wall and the quarter
+ * circle its leaf sweeps, as the editor draws it
+ */
+export function getDoorArea(opening: Opening, floorplan: FloorplanData): Point2D[][] {
+  const wall = floorplan.walls[opening.wallId];
+  const start = wall && floorplan.corners[wall.startCorner];
+  const end = wall && floorplan.corners[wall.endCorner];
+  if (!wall || !start || !end || opening.type !== OpeningType.DOOR) return [];
+  const length = MathUtils.distance(start, end);
+  const [span] = getOpeningSpans([opening], length);
+  if (!span) return [];
+
+  const ux = (end.x - start.x) / length;
+  const uy = (end.y - start.y) / length;
+  const hingeCm = opening.hinge === 'start' ? span.start : span.end;
+  const hinge = { x: start.x + ux * hingeCm, y: start.y + uy * hingeCm };
+  const width = span.end - span.start;
+  const closedX = opening.hinge === 'start' ? ux : -ux;
+  const closedY = opening.hinge === 'start' ? uy : -uy;
+  const sign = (opening.swing === 'front' ? 1 : -1) * (opening.hinge === 'start' ? 1 : -1);
+  const openX = -closedY * sign;
+  const openY = closedX * sign;
+
+  const swing: Point2D[] = [hinge];
+  for (let step = 0; step <= DOOR_ARC_STEPS; step++) {
+    const theta = (step / DOOR_ARC_STEPS) * (Math.PI / 2);
+    swing.push({
+      x: hinge.x + width * (Math.cos(theta) * closedX + Math.sin(theta) * openX),
+      y: hinge.y + width * (Math.cos(theta) * closedY + Math.sin(theta) * openY),
+    });
+  }
+  return [getWallBand(start, end, span.start, span.end, wall.thickness), swing];
+}
+
+/**
+ * Get an item's clearance zones: one rectangle on each side that asks for
+ * clearance, as wide as the item's footprint on that side
+ */
+export function getClearanceZones(item: Item3D): Point2D[][] {
+  const clearance = item.metadata.clearance;
+  if (!clearance) return [];
+  const { width, depth } = getItemSize(item);
+  const center = { x: item.position.x, y: item.position.z };
+  const w = width / 2;
+  const d = depth / 2;
+  const { front = 0, back = 0, left = 0, right = 0 } = clearance;
+  // Each zone as its local min and max x and y around the item's centre
+  const zones: [number, number, number, number][] = [];
+  if (front > 0) zones.push([-w, d, w, d + front]);
+  if (back > 0) zones.push([-w, -d - back, w, -d]);
+  if (left > 0) zones.push([-w - left, -d, -w, d]);
+  if (right > 0) zones.push([w, -d, w + right, d]);
+  return zones.map(([minX, minY, maxX, maxY]) =>
+    [
+      { x: center.x + minX, y: center.y + minY },
+      { x: center.x + maxX, y: center.y + minY },
+      { x: center.x + maxX, y: center.y + maxY },
+      { x: center.x + minX, y: center.y + maxY },
+    ].map(point => MathUtils.rotatePoint(point, -item.rotation.y, center))
+  );
+}
+
+/**
+ * Find every conflict in a floorplan. Two overlapping items give a single
+ * conflict, listed under the first of them.
+ */
+export function findConflicts(floorplan: FloorplanData): Conflict[] {
+  const conflicts: Conflict[] = [];
+  const items = Object.values(floorplan.items);
+  const walls = Object.values(floorplan.walls).map(wall => ({ wall, body: getWallBody(wall, floorplan) }));
+  const doors = Object.values(floorplan.openings)
+    .filter(opening => opening.type === OpeningType.DOOR)
+    .map(opening => ({ opening, area: getDoorArea(opening, floorplan) }));
+  const footprints = items.map(item => ({ item, footprint: getItemFootprint(item), range: getItemRange(item) }));
+
+  footprints.forEach(({ item, footprint, range }, index) => {
+    for (const { wall, body } of walls) {
+      if (range.bottom < wall.height && overlapsAny(footprint, body)) {
+        conflicts.push({ kind: 'wall', itemId: item.id, otherId: wall.id, clearance: false });
+      }
+    }
+    for (const other of footprints.slice(index + 1)) {
+      if (!rangesOverlap(range, other.range)) continue;
+      if (GeometryUtils.convexPolygonsOverlap(footprint, other.footprint, OVERLAP_TOLERANCE)) {
+        conflicts.push({ kind: 'item', itemId: item.id, otherId: other.item.id, clearance: false });
+      }
+    }
+    for (const { opening, area } of doors) {
+      if (range.bottom < opening.height && overlapsAny(footprint, area)) {
+        conflicts.push({ kind: 'door', itemId: item.id, otherId: opening.id, clearance: false });
+      }
+    }
+
+    const zones = getClearanceZones(item);
+    if (zones.length === 0) return;
+    for (const { wall, body } of walls) {
+      if (zones.some(zone => overlapsAny(zone, body))) {
+        conflicts.push({ kind: 'wall', itemId: item.id, otherId: wall.id, clearance: true });
+      }
+    }
+    for (const other of footprints) {
+      if (other.item.id === item.id || !standsOnFloor(other.item)) continue;
+      if (overlapsAny(other.footprint, zones)) {
+        conflicts.push({ kind: 'item', itemId: item.id, otherId: other.item.id, clearance: true });
+      }
+    }
+  });
+
+  return conflicts;
+}
+
+/**
+ * Get the ids of the items in any conflict: both items of an overlap, but
+ * only the item whose clearance is blocked, not what blocks it
+ */
+export function getConflictedItemIds(conflicts: Conflict[]): Set<string> {
+  const ids = new Set<string>();
+  for (const conflict of conflicts) {
+    ids.add(conflict.itemId);
+    if (conflict.kind === 'item' && !conflict.clearance) ids.add(conflict.otherId);
+  }
+  return ids;
+}
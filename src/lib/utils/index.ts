@@ -84,8 +84,8 @@ export function formatFileSize(bytes: number): string {
 }
 
 // Download data as file
-export function downloadFile(data: string, filename: string, type: string = "application/json"): void {
-  const blob = new Blob([data], { type });
+export function downloadFile(data: string | Blob, filename: string, type: string = "application/json"): void {
+  const blob = data instanceof Blob ? data : new Blob([data], { type });
   const url = URL.createObjectURL(blob);
   const a = document.createElement("a");
   a.href = url;
@@ -0,0 +1,94 @@
+import { Item3D, ItemDimensions, Point2D } from '@/types';
+import { DEFAULT_ITEM_DIMENSIONS } from '@/lib/config';
+import { MathUtils } from './math';
+
+/**
+ * Get an item's size as placed: its model size times its scale
+ */
+export function getItemSize(item: Pick<Item3D, 'dimensions' | 'scale'>): ItemDimensions {
+  const dimensions = item.dimensions ?? DEFAULT_ITEM_DIMENSIONS;
+  return {
+    width: dimensions.width * item.scale.x,
+    depth: dimensions.depth * item.scale.z,
+    height: dimensions.height * item.scale.y,
+  };
+}
+
+/**
+ * Get the outline an item covers on the plan, as four points. The plan's y
+ * is three's z, so a turn of rotation.y about three's up axis turns the
+ * footprint the other way on the plan.
+ */
+export function getItemFootprint(item: Item3D): Point2D[] {
+  const { width, depth } = getItemSize(item);
+  const center = { x: item.position.x, y: item.position.z };
+  return [
+    { x: center.x - width / 2, y: center.y - depth / 2 },
+    { x: center.x + width / 2, y: center.y - depth / 2 },
+    { x: center.x + width / 2, y: center.y + depth / 2 },
+    { x: center.x - width / 2, y: center.y + depth / 2 },
+  ].map(point => MathUtils.rotatePoint(point, -item.rotation.y, center));
+}
+
+export interface ItemHandles {
+  rotate: Point2D; // beyond the middle of the back edge
+  backCenter: Point2D;
+  resize: Point2D[]; // the footprint's corners, as getItemFootprint orders them
+}
+
+/**
+ * Get where an item's handles sit on the plan. The rotation handle stands
+ * `rotateOffset` cm behind the item.
+ */
+export function getItemHandles(item: Item3D, rotateOffset: number): ItemHandles {
+  const { depth } = getItemSize(item);
+  const center = { x: item.position.x, y: item.position.z };
+  const angle = -item.rotation.y;
+  return {
+    rotate: MathUtils.rotatePoint({ x: center.x, y: center.y - depth / 2 - rotateOffset }, angle, center),
+    backCenter: MathUtils.rotatePoint({ x: center.x, y: center.y - depth / 2 }, angle, center),
+    resize: getItemFootprint(item),
+  };
+}
+
+/**
+ * Get the rotation.y that turns an item's back, where its rotation handle
+ * is, towards a plan point
+ */
+export function getRotationToward(item: Item3D, point: Point2D): number {
+  const planAngle = Math.atan2(point.y - item.position.z, point.x - item.position.x) + Math.PI / 2;
+  return -planAngle;
+}
+
+/**
+ * Resize an item by dragging one corner of its footprint to a point while
+ * the opposite corner stays put. Returns the new position and scale; the
+ * item keeps its height.
+ */
+export function resizeItemFromCorner(
+  item: Item3D,
+  corner: number,
+  point: Point2D,
+  minSize: number
+): Pick<Item3D, 'position' | 'scale'> {
+  const angle = -item.rotation.y;
+  const opposite = getItemFootprint(item)[(corner + 2) % 4];
+  // The dragged corner's direction from the opposite one, in the item's frame
+  const signX = corner === 1 || corner === 2 ? 1 : -1;
+  const signY = corner >= 2 ? 1 : -1;
+
+  const local = MathUtils.rotatePoint(point, -angle, opposite);
+  const width = Math.max(minSize, (local.x - opposite.x) * signX);
+  const depth = Math.max(minSize, (local.y - opposite.y) * signY);
+  const center = MathUtils.rotatePoint(
+    { x: opposite.x + (signX * width) / 2, y: opposite.y + (signY * depth) / 2 },
+    angle,
+    opposite
+  );
+
+  const dimensions = item.dimensions ?? DEFAULT_ITEM_DIMENSIONS;
+  return {
+    position: { ...item.position, x: center.x, z: center.y },
+    scale: { ...item.scale, x: width / dimensions.width, z: depth / dimensions.depth },
+  };
+}
@@ -88,6 +88,54 @@ export class MathUtils {
     return this.distance(point, closest);
   }
 
+  /**
+   * Project a point onto a line segment. Returns the closest point on the
+   * segment and its parameter t (0 at start, 1 at end).
+   */
+  static projectOntoSegment(point: Point2D, start: Point2D, end: Point2D): { point: Point2D; t: number } {
+    const C = end.x - start.x;
+    const D = end.y - start.y;
+    const lenSq = C * C + D * D;
+    if (lenSq === 0) return { point: { x: start.x, y: start.y }, t: 0 };
+
+    const t = Math.max(0, Math.min(1, ((point.x - start.x) * C + (point.y - start.y) * D) / lenSq));
+    return {
+      point: { x: start.x + t * C, y: start.y + t * D },
+      t,
+    };
+  }
+
+  /**
+   * Intersect segment a1-a2 with segment b1-b2. Returns the crossing point
+   * and its parameters t along a and u along b (0 at the first point, 1 at
+   * the second), or null if the segments are parallel or do not meet.
+   */
+  static segmentIntersection(
+    a1: Point2D,
+    a2: Point2D,
+    b1: Point2D,
+    b2: Point2D
+  ): { point: Point2D; t: number; u: number } | null {
+    const rx = a2.x - a1.x;
+    const ry = a2.y - a1.y;
+    const sx = b2.x - b1.x;
+    const sy = b2.y - b1.y;
+    const denominator = rx * sy - ry * sx;
+    if (Math.abs(denominator) < 1e-9) return null;
+
+    const qx = b1.x - a1.x;
+    const qy = b1.y - a1.y;
+    const t = (qx * sy - qy * sx) / denominator;
+    const u = (qx * ry - qy * rx) / denominator;
+    if (t < 0 || t > 1 || u < 0 || u > 1) return null;
+
+    return {
+      point: { x: a1.x + t * rx, y: a1.y + t * ry },
+      t,
+      u,
+    };
+  }
+
   /**
    * Check if point is inside polygon using ray casting algorithm
    */
@@ -167,68 +215,124 @@ export class MathUtils {
 
 export class GeometryUtils {
   /**
-   * Find rooms using a simple cycle detection algorithm
-   * This is a simplified version of the blueprint3d room detection
+   * Find enclosed rooms by walking the faces of the planar corner/wall graph.
+   *
+   * Dangling walls are pruned first, then every directed wall edge is followed
+   * by always taking the next edge clockwise at each corner. Each closed walk is
+   * a face; bounded faces come out with a positive signed area, while the
+   * outer boundary of each connected component comes out negative and is
+   * dropped. Rooms sharing a wall and rooms nested inside another room are
+   * both reported. Returns one corner id cycle per room.
    */
   static findRooms(corners: Record<string, Corner>, walls: Record<string, Wall>): string[][] {
+    const adjacency = this.buildAdjacency(corners, walls);
+    this.pruneDanglingCorners(adjacency);
+
+    // Sort neighbours around each corner by angle so the "next edge" at a
+    // corner can be found by index
+    const sorted = new Map<string, string[]>();
+    adjacency.forEach((neighbours, cornerId) => {
+      const origin = corners[cornerId];
+      sorted.set(
+        cornerId,
+        Array.from(neighbours).sort(
+          (a, b) => MathUtils.angle(origin, corners[a]) - MathUtils.angle(origin, corners[b])
+        )
+      );
+    });
+
     const rooms: string[][] = [];
     const visited = new Set<string>();
+    const edgeKey = (from: string, to: string) => `${from}>${to}`;
+
+    sorted.forEach((neighbours, startId) => {
+      for (const firstId of neighbours) {
+        if (visited.has(edgeKey(startId, firstId))) continue;
+
+        const face: string[] = [];
+        let from = startId;
+        let to = firstId;
+        while (!visited.has(edgeKey(from, to))) {
+          visited.add(edgeKey(from, to));
+          face.push(from);
+
+          // At `to`, turn to the neighbour that comes right before `from`
+          // in angular order
+          const around = sorted.get(to)!;
+          const index = around.indexOf(from);
+          const next = around[(index - 1 + around.length) % around.length];
+          from = to;
+          to = next;
+        }
 
-    // For each corner, try to find the smallest cycle
-    for (const cornerId in corners) {
-      if (visited.has(cornerId)) continue;
-
-      const cycle = this.findSmallestCycle(cornerId, corners, walls);
-      if (cycle.length >= 3) {
-        rooms.push(cycle);
-        cycle.forEach(id => visited.add(id));
+        const points = face.map(id => corners[id]);
+        if (face.length >= 3 && this.signedPolygonArea(points) > 1e-6) {
+          rooms.push(face);
+        }
       }
-    }
+    });
 
     return rooms;
   }
 
   /**
-   * Find the smallest cycle starting from a corner
+   * Build an undirected corner adjacency map from the wall records, ignoring
+   * walls with missing corners, zero-length walls and duplicate walls
    */
-  private static findSmallestCycle(
-    startCorner: string,
+  private static buildAdjacency(
     corners: Record<string, Corner>,
     walls: Record<string, Wall>
-  ): string[] {
-    // This is a simplified implementation
-    // A full implementation would use proper graph algorithms
-    const visited = new Set<string>();
-    const path: string[] = [];
-
-    const dfs = (cornerId: string): boolean => {
-      if (visited.has(cornerId)) {
-        const cycleStart = path.indexOf(cornerId);
-        if (cycleStart !== -1) {
-          return true;
-        }
-        return false;
-      }
-
-      visited.add(cornerId);
-      path.push(cornerId);
+  ): Map<string, Set<string>> {
+    const adjacency = new Map<string, Set<string>>();
+    for (const wall of Object.values(walls)) {
+      const start = corners[wall.startCorner];
+      const end = corners[wall.endCorner];
+      if (!start || !end || start.id === end.id) continue;
+      if (start.x === end.x && start.y === end.y) continue;
+
+      if (!adjacency.has(start.id)) adjacency.set(start.id, new Set());
+      if (!adjacency.has(end.id)) adjacency.set(end.id, new Set());
+      adjacency.get(start.id)!.add(end.id);
+      adjacency.get(end.id)!.add(start.id);
+    }
+    return adjacency;
+  }
 
-      const corner = corners[cornerId];
-      for (const wallId of corner.adjacentWalls) {
-        const wall = walls[wallId];
-        const nextCorner = wall.startCorner === cornerId ? wall.endCorner : wall.startCorner;
-        
-        if (dfs(nextCorner)) {
-          return true;
-        }
-      }
+  /**
+   * Repeatedly remove corners with fewer than two neighbours, so dangling
+   * walls (and chains of them) never end up inside a room outline
+   */
+  private static pruneDanglingCorners(adjacency: Map<string, Set<string>>): void {
+    const queue = Array.from(adjacency.keys()).filter(id => adjacency.get(id)!.size < 2);
+    while (queue.length > 0) {
+      const id = queue.pop()!;
+      const neighbours = adjacency.get(id);
+      if (!neighbours) continue;
+
+      adjacency.delete(id);
+      neighbours.forEach(neighbourId => {
+        const other = adjacency.get(neighbourId);
+        if (!other) return;
+        other.delete(id);
+        if (other.size < 2) queue.push(neighbourId);
+      });
+    }
+  }
 
-      path.pop();
-      return false;
-    };
+  /**
+   * Calculate the signed polygon area; positive when the points run
+   * counter-clockwise in y-up coordinates (clockwise on screen)
+   */
+  static signedPolygonArea(points: Point2D[]): number {
+    if (points.length < 3) return 0;
 
-    dfs(startCorner);
-    return path;
+    let area = 0;
+    for (let i = 0; i < points.length; i++) {
+      const j = (i + 1) % points.length;
+      area += points[i].x * points[j].y;
+      area -= points[j].x * points[i].y;
+    }
+    return area / 2;
   }
 
   /**
@@ -246,6 +350,113 @@ export class GeometryUtils {
     return Math.abs(area) / 2;
   }
 
+  /**
+   * Check whether two convex polygons overlap by more than `tolerance` cm,
+   * by the separating axis test. Polygons that only touch don't overlap.
+   */
+  static convexPolygonsOverlap(a: Point2D[], b: Point2D[], tolerance: number = 0): boolean {
+    if (a.length < 3 || b.length < 3) return false;
+
+    for (const polygon of [a, b]) {
+      for (let i = 0; i < polygon.length; i++) {
+        const j = (i + 1) % polygon.length;
+        const axis = { x: polygon[i].y - polygon[j].y, y: polygon[j].x - polygon[i].x };
+        const length = Math.hypot(axis.x, axis.y);
+        if (length === 0) continue;
+
+        const project = (points: Point2D[]) => {
+          let min = Infinity, max = -Infinity;
+          for (const point of points) {
+            const value = (point.x * axis.x + point.y * axis.y) / length;
+            min = Math.min(min, value);
+            max = Math.max(max, value);
+          }
+          return { min, max };
+        };
+        const pa = project(a);
+        const pb = project(b);
+        if (Math.min(pa.max, pb.max) - Math.max(pa.min, pb.min) <= tolerance) return false;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Get the axis-aligned bounding box of a set of points
+   */
+  static boundingBox(points: Point2D[]): { minX: number; minY: number; maxX: number; maxY: number } | null {
+    if (points.length === 0) return null;
+
+    let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+    for (const point of points) {
+      minX = Math.min(minX, point.x);
+      minY = Math.min(minY, point.y);
+      maxX = Math.max(maxX, point.x);
+      maxY = Math.max(maxY, point.y);
+    }
+    return { minX, minY, maxX, maxY };
+  }
+
+  /**
+   * Find the pole of inaccessibility: the interior point farthest from the
+   * polygon's edges, to within `precision` cm. Unlike the centroid it is
+   * always inside, so it suits labels in L-shaped and other concave rooms.
+   * Searches a grid of cells over the bounding box, splitting the cells that
+   * could still hold a better point (the polylabel algorithm).
+   */
+  static poleOfInaccessibility(points: Point2D[], precision: number = 1): Point2D {
+    const box = GeometryUtils.boundingBox(points);
+    if (!box || points.length < 3) return GeometryUtils.polygonCentroid(points);
+    const cellSize = Math.min(box.maxX - box.minX, box.maxY - box.minY);
+    if (cellSize === 0) return { x: box.minX, y: box.minY };
+
+    // Distance to the nearest edge; negative outside the polygon
+    const edgeDistance = (point: Point2D) => {
+      let nearest = Infinity;
+      for (let i = 0; i < points.length; i++) {
+        nearest = Math.min(nearest, MathUtils.distanceToLineSegment(point, points[i], points[(i + 1) % points.length]));
+      }
+      return MathUtils.pointInPolygon(point, points) ? nearest : -nearest;
+    };
+    // A square cell `2 * half` wide; `max` is the best distance any point in
+    // it could have
+    const makeCell = (x: number, y: number, half: number) => {
+      const distance = edgeDistance({ x, y });
+      return { x, y, half, distance, max: distance + half * Math.SQRT2 };
+    };
+
+    const queue: ReturnType<typeof makeCell>[] = [];
+    for (let x = box.minX; x < box.maxX; x += cellSize) {
+      for (let y = box.minY; y < box.maxY; y += cellSize) {
+        queue.push(makeCell(x + cellSize / 2, y + cellSize / 2, cellSize / 2));
+      }
+    }
+    const centroid = GeometryUtils.polygonCentroid(points);
+    let best = makeCell(centroid.x, centroid.y, 0);
+    const center = makeCell((box.minX + box.maxX) / 2, (box.minY + box.maxY) / 2, 0);
+    if (center.distance > best.distance) best = center;
+
+    while (queue.length > 0) {
+      // Take the most promising cell
+      let index = 0;
+      for (let i = 1; i < queue.length; i++) {
+        if (queue[i].max > queue[index].max) index = i;
+      }
+      const cell = queue.splice(index, 1)[0];
+      if (cell.distance > best.distance) best = cell;
+      if (cell.max - best.distance <= precision) continue;
+
+      const half = cell.half / 2;
+      queue.push(
+        makeCell(cell.x - half, cell.y - half, half),
+        makeCell(cell.x + half, cell.y - half, half),
+        makeCell(cell.x - half, cell.y + half, half),
+        makeCell(cell.x + half, cell.y + half, half)
+      );
+    }
+    return { x: best.x, y: best.y };
+  }
+
   /**
    * Calculate polygon centroid
    */
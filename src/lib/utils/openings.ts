@@ -0,0 +1,54 @@
+import { Opening, OpeningType } from '@/types';
+
+// Default sizes in cm for newly placed openings
+export const DEFAULT_OPENINGS: Record<OpeningType, Pick<Opening, 'width' | 'height' | 'sillHeight'>> = {
+  [OpeningType.DOOR]: { width: 90, height: 210, sillHeight: 0 },
+  [OpeningType.WINDOW]: { width: 120, height: 120, sillHeight: 90 },
+};
+
+export interface OpeningSpan {
+  opening: Opening;
+  start: number; // cm along the wall
+  end: number;
+}
+
+/**
+ * Get the openings hosted by a wall, ordered from its start corner
+ */
+export function getWallOpenings(wallId: string, openings: Record<string, Opening>): Opening[] {
+  return Object.values(openings)
+    .filter(opening => opening.wallId === wallId)
+    .sort((a, b) => a.offset - b.offset);
+}
+
+/**
+ * Clamp each opening to the current wall length and drop overlaps, so a
+ * shortened wall never draws an opening past its end. The stored offsets are
+ * left untouched and reapply when the wall is stretched again.
+ */
+export function getOpeningSpans(openings: Opening[], wallLength: number): OpeningSpan[] {
+  const spans: OpeningSpan[] = [];
+  let cursor = 0;
+  for (const opening of [...openings].sort((a, b) => a.offset - b.offset)) {
+    const start = Math.max(cursor, opening.offset);
+    const end = Math.min(wallLength, opening.offset + opening.width);
+    if (end - start <= 0) continue;
+    spans.push({ opening, start, end });
+    cursor = end;
+  }
+  return spans;
+}
+
+/**
+ * Get the solid stretches of a wall between its openings, in cm along the wall
+ */
+export function getSolidSegments(spans: OpeningSpan[], wallLength: number): [number, number][] {
+  const segments: [number, number][] = [];
+  let cursor = 0;
+  for (const span of spans) {
+    if (span.start > cursor) segments.push([cursor, span.start]);
+    cursor = span.end;
+  }
+  if (cursor < wallLength) segments.push([cursor, wallLength]);
+  return segments;
+}
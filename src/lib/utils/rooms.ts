@@ -0,0 +1,117 @@
+import { Corner, FloorplanData, Point2D, Room, RoomType, Wall } from '@/types';
+import { DEFAULT_CONFIG } from '@/lib/config';
+import { GeometryUtils, MathUtils } from './math';
+
+export interface RoomTypeStyle {
+  label: string;
+  fill: string; // 2D plan fill
+  floorColor: string; // 3D floor colour when the room has no floor texture
+}
+
+export const ROOM_TYPES: Record<RoomType, RoomTypeStyle> = {
+  [RoomType.LIVING_ROOM]: { label: 'Living room', fill: 'rgba(250, 204, 21, 0.12)', floorColor: '#c9a47a' },
+  [RoomType.BEDROOM]: { label: 'Bedroom', fill: 'rgba(96, 165, 250, 0.12)', floorColor: '#d2b48c' },
+  [RoomType.KITCHEN]: { label: 'Kitchen', fill: 'rgba(248, 113, 113, 0.12)', floorColor: '#e5e0d8' },
+  [RoomType.BATHROOM]: { label: 'Bathroom', fill: 'rgba(45, 212, 191, 0.14)', floorColor: '#dfe7ea' },
+  [RoomType.DINING_ROOM]: { label: 'Dining room', fill: 'rgba(251, 146, 60, 0.12)', floorColor: '#b98b5e' },
+  [RoomType.OFFICE]: { label: 'Office', fill: 'rgba(167, 139, 250, 0.12)', floorColor: '#a9a9a9' },
+  [RoomType.HALLWAY]: { label: 'Hallway', fill: 'rgba(163, 163, 163, 0.12)', floorColor: '#cfc6b8' },
+  [RoomType.STORAGE]: { label: 'Storage', fill: 'rgba(120, 113, 108, 0.12)', floorColor: '#bdb6ad' },
+};
+
+/**
+ * Get a room's outline as points, skipping corners that no longer exist
+ */
+export function getRoomOutline(room: Room, corners: Record<string, Corner>): Point2D[] {
+  return room.corners.map(id => corners[id]).filter((corner): corner is Corner => !!corner);
+}
+
+/**
+ * Find the room containing a point. Where rooms nest, the innermost (the
+ * smallest) wins.
+ */
+export function findRoomAt(floorplan: FloorplanData, point: Point2D): Room | null {
+  let best: Room | null = null;
+  let bestArea = Infinity;
+  for (const room of Object.values(floorplan.rooms)) {
+    const outline = getRoomOutline(room, floorplan.corners);
+    if (!MathUtils.pointInPolygon(point, outline)) continue;
+    const area = GeometryUtils.polygonArea(outline);
+    if (area < bestArea) {
+      best = room;
+      bestArea = area;
+    }
+  }
+  return best;
+}
+
+/**
+ * Get the height of a room's ceiling: the room's own, or else the tallest
+ * wall along its outline
+ */
+export function getCeilingHeight(room: Room, floorplan: FloorplanData): number {
+  if (room.ceilingHeight !== undefined) return room.ceilingHeight;
+  const cornerIds = new Set(room.corners);
+  const heights = Object.values(floorplan.walls)
+    .filter(wall => cornerIds.has(wall.startCorner) && cornerIds.has(wall.endCorner))
+    .map(wall => wall.height);
+  return heights.length > 0 ? Math.max(...heights) : DEFAULT_CONFIG.wallHeight;
+}
+
+export interface RoomMeasurements {
+  outline: Point2D[]; // the inside faces of the walls around the room
+  area: number; // net floor area in cm²
+  perimeter: number; // cm, along the inside faces
+  labelPoint: Point2D; // pole of inaccessibility of the outline
+}
+
+// Find the wall joining two corners, either way round
+const findWallBetween = (floorplan: Pick<FloorplanData, 'corners' | 'walls'>, a: string, b: string): Wall | undefined =>
+  floorplan.corners[a]?.adjacentWalls
+    .map(id => floorplan.walls[id])
+    .find(wall => wall && ((wall.startCorner === a && wall.endCorner === b) || (wall.startCorner === b && wall.endCorner === a)));
+
+/**
+ * Get a room's outline along the inside faces of its walls: each edge of the
+ * centre-line outline moved inwards by half its wall's thickness, with the
+ * corners where the moved edges meet
+ */
+export function getRoomInnerOutline(room: Room, floorplan: Pick<FloorplanData, 'corners' | 'walls'>): Point2D[] {
+  const outline = getRoomOutline(room, floorplan.corners);
+  if (outline.length < 3 || outline.length !== room.corners.length) return outline;
+  // Inwards is to the left of each edge for a counter-clockwise outline
+  const inward = GeometryUtils.signedPolygonArea(outline) > 0 ? 1 : -1;
+
+  const edges = outline.map((start, i) => {
+    const end = outline[(i + 1) % outline.length];
+    const length = MathUtils.distance(start, end);
+    const inset = (findWallBetween(floorplan, room.corners[i], room.corners[(i + 1) % outline.length])?.thickness ?? 0) / 2;
+    if (length === 0) return { start, dx: 0, dy: 0 };
+    const nx = (-(end.y - start.y) / length) * inward;
+    const ny = ((end.x - start.x) / length) * inward;
+    return { start: { x: start.x + nx * inset, y: start.y + ny * inset }, dx: end.x - start.x, dy: end.y - start.y };
+  });
+
+  // Each corner is where the edges either side of it meet after the move
+  return edges.map((edge, i) => {
+    const previous = edges[(i + edges.length - 1) % edges.length];
+    const cross = previous.dx * edge.dy - previous.dy * edge.dx;
+    if (Math.abs(cross) < 1e-9) return edge.start; // straight on
+    const t = ((edge.start.x - previous.start.x) * edge.dy - (edge.start.y - previous.start.y) * edge.dx) / cross;
+    return { x: previous.start.x + previous.dx * t, y: previous.start.y + previous.dy * t };
+  });
+}
+
+/**
+ * Measure a room inside its walls
+ */
+export function measureRoom(room: Room, floorplan: Pick<FloorplanData, 'corners' | 'walls'>): RoomMeasurements {
+  const outline = getRoomInnerOutline(room, floorplan);
+  const perimeter = outline.reduce((total, point, i) => total + MathUtils.distance(point, outline[(i + 1) % outline.length]), 0);
+  return {
+    outline,
+    area: GeometryUtils.polygonArea(outline),
+    perimeter,
+    labelPoint: GeometryUtils.poleOfInaccessibility(outline),
+  };
+}
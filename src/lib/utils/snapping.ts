@@ -0,0 +1,237 @@
+import { Corner, ObjectSnapKind, Point2D, SnapSettings } from '@/types';
+import { MathUtils } from './math';
+import { WallSegment } from './spatial-index';
+
+/**
+ * Snapping for drawing and dragging corners. A candidate point is pulled,
+ * in order of precedence, onto:
+ *
+ *   1. an object snap on an existing wall: its midpoint or the
+ *      perpendicular foot from the corner being drawn from, else a point on
+ *      the wall or on its extension past either end
+ *   2. a direction at a multiple of `angleStep` from an anchor (the corner a
+ *      wall is drawn from), measured from the anchor's reference direction
+ *   3. otherwise the grid
+ *
+ * and then, unless an object snap applies, lined up horizontally and/or
+ * vertically with other corners. When the point is on an angle ray, line
+ * snaps and alignment move it along the ray so both hold. Guides describe
+ * what snapped, for the editor to draw.
+ */
+
+export interface SnapAnchor {
+  point: Point2D;
+  referenceAngle: number; // radians; angle snapping is relative to this direction
+}
+
+export interface SnapGuide {
+  kind: 'angle' | 'alignment' | 'extension';
+  from: Point2D;
+  to: Point2D;
+}
+
+export interface SnapContext {
+  corners: Corner[]; // candidates for alignment
+  walls?: WallSegment[]; // candidates for object snaps
+  excludeCornerIds?: Set<string>; // corners that move with the point
+  anchors?: SnapAnchor[];
+  perpendicularFrom?: Point2D | null; // the corner a wall is being drawn from
+  gridSize: number; // cm
+  tolerance: number; // cm
+}
+
+export interface SnapResult {
+  point: Point2D;
+  guides: SnapGuide[];
+  objectSnap?: ObjectSnapKind;
+}
+
+interface Ray {
+  origin: Point2D;
+  direction: Point2D;
+}
+
+interface ObjectSnap {
+  kind: ObjectSnapKind;
+  point: Point2D;
+  guide?: SnapGuide;
+}
+
+// Object snaps at a single point beat those anywhere along a line
+const POINT_SNAPS: ObjectSnapKind[] = ['midpoint', 'perpendicular'];
+
+// Extensions are offered this far past a wall's end, in wall lengths
+const MAX_EXTENSION = 3;
+
+// Move a point onto the nearest allowed direction from an anchor
+function snapToAngle(
+  point: Point2D,
+  anchor: SnapAnchor,
+  stepRadians: number
+): { point: Point2D; direction: Point2D } | null {
+  const dx = point.x - anchor.point.x;
+  const dy = point.y - anchor.point.y;
+  if (dx === 0 && dy === 0) return null;
+
+  const relative = Math.atan2(dy, dx) - anchor.referenceAngle;
+  const snapped = anchor.referenceAngle + Math.round(relative / stepRadians) * stepRadians;
+  const direction = { x: Math.cos(snapped), y: Math.sin(snapped) };
+  const along = Math.max(0, dx * direction.x + dy * direction.y);
+  return {
+    point: { x: anchor.point.x + direction.x * along, y: anchor.point.y + direction.y * along },
+    direction,
+  };
+}
+
+/**
+ * Find the corner nearest to `value` along one axis within the tolerance
+ */
+function findAligned(corners: Corner[], axis: 'x' | 'y', value: number, tolerance: number): Corner | null {
+  let best: Corner | null = null;
+  for (const corner of corners) {
+    const offset = Math.abs(corner[axis] - value);
+    if (offset < tolerance && (!best || offset < Math.abs(best[axis] - value))) best = corner;
+  }
+  return best;
+}
+
+// Parameter along start-end (0 at start, 1 at end) of the point on the
+// wall's line nearest to `point`, unclamped
+function lineParameter(point: Point2D, start: Point2D, end: Point2D): number {
+  const dx = end.x - start.x;
+  const dy = end.y - start.y;
+  return ((point.x - start.x) * dx + (point.y - start.y) * dy) / (dx * dx + dy * dy);
+}
+
+const pointAt = (start: Point2D, end: Point2D, t: number): Point2D => ({
+  x: start.x + (end.x - start.x) * t,
+  y: start.y + (end.y - start.y) * t,
+});
+
+/**
+ * Collect the object snaps within the tolerance of a point. With an angle
+ * ray, snaps along a wall's line are taken where the ray crosses that line.
+ */
+function findObjectSnaps(point: Point2D, context: SnapContext, settings: SnapSettings, ray: Ray | null): ObjectSnap[] {
+  const { tolerance, excludeCornerIds, perpendicularFrom } = context;
+  const enabled = settings.objectSnaps;
+  const snaps: ObjectSnap[] = [];
+
+  // Where the ray meets the wall's line, as a parameter along the wall
+  const alongRay = (ray: Ray, start: Point2D, end: Point2D): number | null => {
+    const { x: rx, y: ry } = ray.direction;
+    const sx = end.x - start.x;
+    const sy = end.y - start.y;
+    const denominator = rx * sy - ry * sx;
+    if (Math.abs(denominator) < 1e-9) return null;
+    return ((start.x - ray.origin.x) * ry - (start.y - ray.origin.y) * rx) / denominator;
+  };
+
+  for (const { wall, start, end } of context.walls ?? []) {
+    if (excludeCornerIds?.has(wall.startCorner) || excludeCornerIds?.has(wall.endCorner)) continue;
+    if (MathUtils.distance(start, end) === 0) continue;
+
+    if (enabled.midpoint) {
+      const midpoint = pointAt(start, end, 0.5);
+      if (MathUtils.distance(point, midpoint) < tolerance) snaps.push({ kind: 'midpoint', point: midpoint });
+    }
+
+    if (enabled.perpendicular && perpendicularFrom) {
+      const t = lineParameter(perpendicularFrom, start, end);
+      const foot = pointAt(start, end, t);
+      if (t >= 0 && t <= 1 && MathUtils.distance(foot, perpendicularFrom) > 1 && MathUtils.distance(point, foot) < tolerance) {
+        snaps.push({ kind: 'perpendicular', point: foot });
+      }
+    }
+
+    if (!enabled.nearest && !enabled.extension) continue;
+    if (!ray && MathUtils.distanceToLineSegment(point, start, end) < tolerance) {
+      if (enabled.nearest) snaps.push({ kind: 'nearest', point: MathUtils.projectOntoSegment(point, start, end).point });
+      continue;
+    }
+    const t = ray ? alongRay(ray, start, end) : lineParameter(point, start, end);
+    if (t === null) continue;
+    const onLine = pointAt(start, end, t);
+    if (MathUtils.distance(point, onLine) >= tolerance) continue;
+    if (t >= 0 && t <= 1) {
+      if (enabled.nearest) snaps.push({ kind: 'nearest', point: onLine });
+    } else if (enabled.extension && Math.abs(t < 0 ? t : t - 1) <= MAX_EXTENSION) {
+      snaps.push({
+        kind: 'extension',
+        point: onLine,
+        guide: { kind: 'extension', from: t < 0 ? start : end, to: onLine },
+      });
+    }
+  }
+  return snaps;
+}
+
+/**
+ * Snap a point according to the user's snap settings
+ */
+export function snapPoint(point: Point2D, context: SnapContext, settings: SnapSettings): SnapResult {
+  const { tolerance } = context;
+  const candidates = context.excludeCornerIds
+    ? context.corners.filter(corner => !context.excludeCornerIds!.has(corner.id))
+    : context.corners;
+  const guides: SnapGuide[] = [];
+
+  // Angle: the anchor whose nearest snapped direction is closest wins
+  let ray: Ray | null = null;
+  let result = point;
+  if (settings.angleStep > 0) {
+    const step = (settings.angleStep * Math.PI) / 180;
+    let bestDistance = tolerance;
+    for (const anchor of context.anchors ?? []) {
+      const snapped = snapToAngle(point, anchor, step);
+      if (!snapped) continue;
+      const offset = MathUtils.distance(point, snapped.point);
+      if (offset >= bestDistance) continue;
+      bestDistance = offset;
+      result = snapped.point;
+      ray = { origin: anchor.point, direction: snapped.direction };
+    }
+  }
+
+  // Object snaps: point snaps first, then the closest to the cursor
+  const objectSnap = findObjectSnaps(point, context, settings, ray).sort((a, b) =>
+    Number(POINT_SNAPS.includes(b.kind)) - Number(POINT_SNAPS.includes(a.kind)) ||
+    MathUtils.distance(point, a.point) - MathUtils.distance(point, b.point)
+  )[0];
+  if (objectSnap) {
+    if (objectSnap.guide) guides.push(objectSnap.guide);
+    // Point snaps leave the angle ray; line snaps were taken along it
+    if (ray && !POINT_SNAPS.includes(objectSnap.kind)) guides.push({ kind: 'angle', from: ray.origin, to: objectSnap.point });
+    return { point: objectSnap.point, guides, objectSnap: objectSnap.kind };
+  }
+
+  if (!ray && settings.grid && context.gridSize > 0) {
+    result = MathUtils.snapToGrid(result, context.gridSize);
+  }
+
+  if (settings.alignmentGuides) {
+    const alignedX = findAligned(candidates, 'x', point.x, tolerance);
+    const alignedY = findAligned(candidates, 'y', point.y, tolerance);
+    if (ray) {
+      // Slide along the ray to where it meets the alignment line
+      for (const [corner, axis] of [[alignedX, 'x'], [alignedY, 'y']] as const) {
+        if (!corner || Math.abs(ray.direction[axis]) < 1e-6) continue;
+        const along = (corner[axis] - ray.origin[axis]) / ray.direction[axis];
+        if (along < 0) continue;
+        const onRay = { x: ray.origin.x + ray.direction.x * along, y: ray.origin.y + ray.direction.y * along };
+        if (MathUtils.distance(onRay, result) >= tolerance) continue;
+        result = onRay;
+        guides.push({ kind: 'alignment', from: corner, to: result });
+        break;
+      }
+    } else {
+      if (alignedX) result = { ...result, x: alignedX.x };
+      if (alignedY) result = { ...result, y: alignedY.y };
+      if (alignedX) guides.push({ kind: 'alignment', from: alignedX, to: result });
+      if (alignedY) guides.push({ kind: 'alignment', from: alignedY, to: result });
+    }
+  }
+
+  if (ray) guides.push({ kind: 'angle', from: ray.origin, to: result });
+  return { point: result, guides };
+}
@@ -0,0 +1,265 @@
+import { Corner, FloorplanData, Item3D, Point2D, Wall } from '@/types';
+import { GeometryUtils, MathUtils } from './math';
+import { getItemFootprint } from './items';
+
+/**
+ * Uniform grid index over a floorplan's corners, wall segments and item
+ * footprints, for hit tests and snapping without scanning every entity.
+ *
+ * Each entity is filed under every grid cell its bounding box touches. The
+ * store updates the floorplan immutably, so `sync` finds what changed by
+ * comparing records and entities by reference and refiles only those; a
+ * moved corner also refiles the walls it joins.
+ */
+
+export interface Rect {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+export interface WallSegment {
+  wall: Wall;
+  start: Point2D;
+  end: Point2D;
+}
+
+export interface ItemFootprint {
+  item: Item3D;
+  outline: Point2D[];
+}
+
+const DEFAULT_CELL_SIZE = 100; // cm
+
+const EMPTY_FLOORPLAN: FloorplanData = { corners: {}, walls: {}, rooms: {}, openings: {}, items: {} };
+
+export const rectAround = (point: Point2D, radius: number): Rect => ({
+  minX: point.x - radius,
+  minY: point.y - radius,
+  maxX: point.x + radius,
+  maxY: point.y + radius,
+});
+
+/**
+ * Entities of one kind filed by grid cell
+ */
+class Grid<T> {
+  private cells = new Map<string, Set<string>>();
+  private entries = new Map<string, { value: T; box: Rect; keys: string[] }>();
+  // Cells ever used, so unbounded queries can be clamped; only grows
+  private extent: Rect | null = null;
+
+  constructor(private cellSize: number) {}
+
+  private cellRange(box: Rect): Rect {
+    return {
+      minX: Math.floor(box.minX / this.cellSize),
+      minY: Math.floor(box.minY / this.cellSize),
+      maxX: Math.floor(box.maxX / this.cellSize),
+      maxY: Math.floor(box.maxY / this.cellSize),
+    };
+  }
+
+  insert(id: string, value: T, box: Rect) {
+    this.remove(id);
+    const range = this.cellRange(box);
+    const keys: string[] = [];
+    for (let i = range.minX; i <= range.maxX; i++) {
+      for (let j = range.minY; j <= range.maxY; j++) {
+        const key = `${i},${j}`;
+        if (!this.cells.has(key)) this.cells.set(key, new Set());
+        this.cells.get(key)!.add(id);
+        keys.push(key);
+      }
+    }
+    this.entries.set(id, { value, box, keys });
+    this.extent = this.extent
+      ? {
+          minX: Math.min(this.extent.minX, range.minX),
+          minY: Math.min(this.extent.minY, range.minY),
+          maxX: Math.max(this.extent.maxX, range.maxX),
+          maxY: Math.max(this.extent.maxY, range.maxY),
+        }
+      : range;
+  }
+
+  remove(id: string) {
+    const entry = this.entries.get(id);
+    if (!entry) return;
+    for (const key of entry.keys) {
+      const cell = this.cells.get(key)!;
+      cell.delete(id);
+      if (cell.size === 0) this.cells.delete(key);
+    }
+    this.entries.delete(id);
+  }
+
+  // Entities whose bounding box overlaps the rectangle
+  query(box: Rect): T[] {
+    if (!this.extent) return [];
+    const range = this.cellRange(box);
+    const minX = Math.max(range.minX, this.extent.minX);
+    const minY = Math.max(range.minY, this.extent.minY);
+    const maxX = Math.min(range.maxX, this.extent.maxX);
+    const maxY = Math.min(range.maxY, this.extent.maxY);
+
+    const found = new Set<string>();
+    for (let i = minX; i <= maxX; i++) {
+      for (let j = minY; j <= maxY; j++) {
+        this.cells.get(`${i},${j}`)?.forEach(id => found.add(id));
+      }
+    }
+    const results: T[] = [];
+    found.forEach(id => {
+      const entry = this.entries.get(id)!;
+      if (entry.box.minX <= box.maxX && entry.box.maxX >= box.minX && entry.box.minY <= box.maxY && entry.box.maxY >= box.minY) {
+        results.push(entry.value);
+      }
+    });
+    return results;
+  }
+}
+
+export class SpatialIndex {
+  private floorplan: FloorplanData = EMPTY_FLOORPLAN;
+  private corners: Grid<Corner>;
+  private walls: Grid<WallSegment>;
+  private items: Grid<ItemFootprint>;
+  // Of any wall ever filed, to pad queries for walls by their faces; only grows
+  private thickest = 0;
+
+  constructor(cellSize: number = DEFAULT_CELL_SIZE) {
+    this.corners = new Grid(cellSize);
+    this.walls = new Grid(cellSize);
+    this.items = new Grid(cellSize);
+  }
+
+  /**
+   * Bring the index up to date with a floorplan, refiling only the entities
+   * that changed since the last sync
+   */
+  sync(floorplan: FloorplanData): this {
+    const previous = this.floorplan;
+    if (floorplan === previous) return this;
+    this.floorplan = floorplan;
+
+    const staleWalls = new Set<string>();
+    if (floorplan.corners !== previous.corners) {
+      for (const [id, corner] of Object.entries(previous.corners)) {
+        if (floorplan.corners[id] === corner) continue;
+        corner.adjacentWalls.forEach(wallId => staleWalls.add(wallId));
+        if (!floorplan.corners[id]) this.corners.remove(id);
+      }
+      for (const [id, corner] of Object.entries(floorplan.corners)) {
+        if (previous.corners[id] === corner) continue;
+        corner.adjacentWalls.forEach(wallId => staleWalls.add(wallId));
+        this.corners.insert(id, corner, { minX: corner.x, minY: corner.y, maxX: corner.x, maxY: corner.y });
+      }
+    }
+
+    if (floorplan.walls !== previous.walls) {
+      for (const id of Object.keys(previous.walls)) {
+        if (floorplan.walls[id] !== previous.walls[id]) staleWalls.add(id);
+      }
+      for (const id of Object.keys(floorplan.walls)) {
+        if (floorplan.walls[id] !== previous.walls[id]) staleWalls.add(id);
+      }
+    }
+    staleWalls.forEach(id => {
+      const wall = floorplan.walls[id];
+      const start = wall && floorplan.corners[wall.startCorner];
+      const end = wall && floorplan.corners[wall.endCorner];
+      if (!wall || !start || !end) {
+        this.walls.remove(id);
+        return;
+      }
+      this.walls.insert(id, { wall, start, end }, GeometryUtils.boundingBox([start, end])!);
+      this.thickest = Math.max(this.thickest, wall.thickness);
+    });
+
+    if (floorplan.items !== previous.items) {
+      for (const id of Object.keys(previous.items)) {
+        if (!floorplan.items[id]) this.items.remove(id);
+      }
+      for (const [id, item] of Object.entries(floorplan.items)) {
+        if (previous.items[id] === item) continue;
+        const outline = getItemFootprint(item);
+        this.items.insert(id, { item, outline }, GeometryUtils.boundingBox(outline)!);
+      }
+    }
+    return this;
+  }
+
+  cornersInRect(rect: Rect): Corner[] {
+    return this.corners.query(rect);
+  }
+
+  wallsInRect(rect: Rect): WallSegment[] {
+    return this.walls.query(rect);
+  }
+
+  // At least the thickness of the thickest wall, as walls are filed by their
+  // centre lines
+  get maxWallThickness(): number {
+    return this.thickest;
+  }
+
+  itemsInRect(rect: Rect): ItemFootprint[] {
+    return this.items.query(rect);
+  }
+
+  /**
+   * Corners that line up with a point within the tolerance, horizontally or
+   * vertically, anywhere on the plan
+   */
+  cornersAlignedWith(point: Point2D, tolerance: number): Corner[] {
+    const found = new Map<string, Corner>();
+    const columns = this.corners.query({ minX: point.x - tolerance, maxX: point.x + tolerance, minY: -Infinity, maxY: Infinity });
+    const rows = this.corners.query({ minX: -Infinity, maxX: Infinity, minY: point.y - tolerance, maxY: point.y + tolerance });
+    [...columns, ...rows].forEach(corner => found.set(corner.id, corner));
+    return Array.from(found.values());
+  }
+
+  /**
+   * Find the corner nearest to a point within the tolerance
+   */
+  findCornerAt(point: Point2D, tolerance: number, excludeCornerIds?: Set<string>): Corner | null {
+    let best: Corner | null = null;
+    let bestDistance = tolerance;
+    for (const corner of this.corners.query(rectAround(point, tolerance))) {
+      if (excludeCornerIds?.has(corner.id)) continue;
+      const offset = MathUtils.distance(point, corner);
+      if (offset < bestDistance) {
+        best = corner;
+        bestDistance = offset;
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Find the wall nearest to a point within the tolerance
+   */
+  findWallAt(point: Point2D, tolerance: number): Wall | null {
+    let best: Wall | null = null;
+    let bestDistance = tolerance;
+    for (const { wall, start, end } of this.walls.query(rectAround(point, tolerance))) {
+      if (MathUtils.distance(start, end) === 0) continue;
+      const offset = MathUtils.distanceToLineSegment(point, start, end);
+      if (offset < bestDistance) {
+        best = wall;
+        bestDistance = offset;
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Find the item whose footprint contains a point
+   */
+  findItemAt(point: Point2D): Item3D | null {
+    const hit = this.items.query(rectAround(point, 0)).find(({ outline }) => MathUtils.pointInPolygon(point, outline));
+    return hit?.item ?? null;
+  }
+}
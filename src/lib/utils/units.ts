@@ -0,0 +1,186 @@
+import { AppConfig, LengthUnit, Point2D } from '@/types';
+
+/**
+ * Display and entry of lengths in the user's preferred units. The plan is
+ * always stored in cm; these convert at the edges.
+ *
+ * `precision` is the number of decimals for decimal units, and for the
+ * inch-based units the finest fraction shown, as a power of two: 0 for whole
+ * inches, 1 for halves, up to 4 for sixteenths.
+ */
+
+export type LengthFormat = Pick<AppConfig, 'units' | 'precision'>;
+
+export const LENGTH_UNITS: Record<LengthUnit, string> = {
+  mm: 'Millimetres',
+  cm: 'Centimetres',
+  m: 'Metres',
+  ft: 'Feet (decimal)',
+  'ft-in': 'Feet and inches',
+  in: 'Inches',
+};
+
+// The units a value can be written in
+type BaseUnit = 'mm' | 'cm' | 'm' | 'ft' | 'in';
+
+const CM_PER_UNIT: Record<BaseUnit, number> = { mm: 0.1, cm: 1, m: 100, ft: 30.48, in: 2.54 };
+
+// What a bare number means when it follows a number with a unit: 3m 20 is
+// 3 m 20 cm, 10' 6 is 10 ft 6 in
+const NEXT_SMALLER: Partial<Record<BaseUnit, BaseUnit>> = { m: 'cm', cm: 'mm', ft: 'in' };
+
+// What a bare number means on its own
+const DEFAULT_ENTRY_UNIT: Record<LengthUnit, BaseUnit> = { mm: 'mm', cm: 'cm', m: 'm', ft: 'ft', 'ft-in': 'ft', in: 'in' };
+
+const UNIT_ALIASES: Record<string, BaseUnit> = {
+  mm: 'mm',
+  cm: 'cm',
+  m: 'm',
+  ft: 'ft',
+  feet: 'ft',
+  foot: 'ft',
+  "'": 'ft',
+  '′': 'ft',
+  in: 'in',
+  inch: 'in',
+  inches: 'in',
+  '"': 'in',
+  '″': 'in',
+};
+
+const MAX_FRACTION_PRECISION = 4; // sixteenths
+const MAX_DECIMAL_PRECISION = 3;
+
+const CM2_PER_M2 = 10000;
+const CM2_PER_FT2 = 929.0304;
+
+export const isImperial = (units: LengthUnit) => units === 'ft' || units === 'ft-in' || units === 'in';
+
+const usesFractions = (units: LengthUnit) => units === 'ft-in' || units === 'in';
+
+/**
+ * Precision choices for a unit, for a select in the UI
+ */
+export function getPrecisionOptions(units: LengthUnit): { value: number; label: string }[] {
+  if (usesFractions(units)) {
+    return Array.from({ length: MAX_FRACTION_PRECISION + 1 }, (_, value) => ({
+      value,
+      label: value === 0 ? '1"' : `1/${2 ** value}"`,
+    }));
+  }
+  return Array.from({ length: MAX_DECIMAL_PRECISION + 1 }, (_, value) => ({
+    value,
+    label: (10 ** -value).toFixed(value),
+  }));
+}
+
+/**
+ * Format a non-negative number of inches with a fraction, e.g. 6 1/2
+ */
+function formatInches(inches: number, precision: number): string {
+  let denominator = 2 ** Math.max(0, Math.min(MAX_FRACTION_PRECISION, Math.round(precision)));
+  const parts = Math.round(inches * denominator);
+  const whole = Math.floor(parts / denominator);
+  let numerator = parts % denominator;
+  while (numerator > 0 && numerator % 2 === 0) {
+    numerator /= 2;
+    denominator /= 2;
+  }
+  if (numerator === 0) return `${whole}`;
+  return whole > 0 ? `${whole} ${numerator}/${denominator}` : `${numerator}/${denominator}`;
+}
+
+/**
+ * Format a length in cm in the given units, e.g. 3.20 m or 10'6 1/2"
+ */
+export function formatLength(cm: number, format: LengthFormat): string {
+  const sign = cm < 0 ? '-' : '';
+  const value = Math.abs(cm);
+  const decimals = Math.max(0, Math.min(MAX_DECIMAL_PRECISION, Math.round(format.precision)));
+
+  switch (format.units) {
+    case 'mm':
+    case 'cm':
+    case 'm':
+      return `${sign}${(value / CM_PER_UNIT[format.units]).toFixed(decimals)} ${format.units}`;
+    case 'ft':
+      return `${sign}${(value / CM_PER_UNIT.ft).toFixed(decimals)}'`;
+    case 'in':
+      return `${sign}${formatInches(value / CM_PER_UNIT.in, format.precision)}"`;
+    case 'ft-in': {
+      // Round to the shown fraction first so 11.99" doesn't display as 0'12"
+      const step = 2 ** Math.max(0, Math.min(MAX_FRACTION_PRECISION, Math.round(format.precision)));
+      const inches = Math.round((value / CM_PER_UNIT.in) * step) / step;
+      const feet = Math.floor(inches / 12);
+      return `${sign}${feet}'${formatInches(inches - feet * 12, format.precision)}"`;
+    }
+  }
+}
+
+/**
+ * Format an area in cm² as m² for metric units or ft² for imperial ones
+ */
+export function formatArea(cm2: number, format: LengthFormat): string {
+  return isImperial(format.units)
+    ? `${(cm2 / CM2_PER_FT2).toFixed(1)} ft²`
+    : `${(cm2 / CM2_PER_M2).toFixed(2)} m²`;
+}
+
+/**
+ * Format a plan point as x, y
+ */
+export function formatCoordinate(point: Point2D, format: LengthFormat): string {
+  return `${formatLength(point.x, format)}, ${formatLength(point.y, format)}`;
+}
+
+// One number, a whole number and fraction, or a fraction, with an optional
+// unit: 3.2m, 20 cm, 10', 6 1/2", 3/4in
+const TOKEN = /\s*(?:(\d+)\s*\/\s*(\d+)|(\d+(?:[.,]\d+)?|[.,]\d+)(?:\s+(\d+)\s*\/\s*(\d+))?)\s*(mm|cm|m(?![a-z])|feet|foot|ft|inches|inch|in|'|′|"|″)?/gi;
+
+/**
+ * Parse a length typed in any supported units to cm, e.g. 3.2 m, 3m 20cm,
+ * 320, 10' 6 1/2" or 126.5in. Bare numbers are in the preferred units, or
+ * after a number with a unit, in the next smaller unit. Returns null for
+ * anything that isn't a length.
+ */
+export function parseLength(input: string, format: LengthFormat): number | null {
+  let text = input.trim();
+  let sign = 1;
+  if (text.startsWith('-')) {
+    sign = -1;
+    text = text.slice(1);
+  }
+  if (text === '') return null;
+
+  let total = 0;
+  let previous: BaseUnit | null = null;
+  let position = 0;
+  while (position < text.length) {
+    TOKEN.lastIndex = position;
+    const match = TOKEN.exec(text);
+    if (!match || match.index !== position || match[0].length === 0) return null;
+    position = TOKEN.lastIndex;
+
+    const [, fractionTop, fractionBottom, number, mixedTop, mixedBottom, unitText] = match;
+    let value: number;
+    if (fractionTop !== undefined) {
+      if (Number(fractionBottom) === 0) return null;
+      value = Number(fractionTop) / Number(fractionBottom);
+    } else {
+      value = parseFloat(number.replace(',', '.'));
+      if (mixedTop !== undefined) {
+        if (Number(mixedBottom) === 0) return null;
+        value += Number(mixedTop) / Number(mixedBottom);
+      }
+    }
+
+    const unit: BaseUnit = unitText
+      ? UNIT_ALIASES[unitText.toLowerCase()]
+      : previous
+        ? NEXT_SMALLER[previous] ?? previous
+        : DEFAULT_ENTRY_UNIT[format.units];
+    total += value * CM_PER_UNIT[unit];
+    previous = unit;
+  }
+  return sign * total;
+}
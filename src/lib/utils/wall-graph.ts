@@ -0,0 +1,138 @@
+import { Corner, FloorplanData, Point2D, Wall } from '@/types';
+import { MathUtils } from './math';
+import { generateId } from '@/lib/utils';
+
+/**
+ * Edits to the graph of corners and walls that keep it connected: walls
+ * that cross or meet share a corner, which room detection relies on. Used
+ * by the store for drawn walls and by importers for imported ones.
+ */
+
+// Link a wall into the floorplan, registering it with both its corners
+export function linkWall(floorplan: FloorplanData, wall: Wall): FloorplanData {
+  return {
+    ...floorplan,
+    walls: {
+      ...floorplan.walls,
+      [wall.id]: wall,
+    },
+    corners: {
+      ...floorplan.corners,
+      [wall.startCorner]: {
+        ...floorplan.corners[wall.startCorner],
+        adjacentWalls: [...(floorplan.corners[wall.startCorner]?.adjacentWalls || []), wall.id],
+      },
+      [wall.endCorner]: {
+        ...floorplan.corners[wall.endCorner],
+        adjacentWalls: [...(floorplan.corners[wall.endCorner]?.adjacentWalls || []), wall.id],
+      },
+    },
+  };
+}
+
+// Crossings closer than this to a wall's end (cm) join its corner instead
+const SPLIT_END_TOLERANCE = 1;
+
+/**
+ * Split a wall in two at the point on it nearest to `point`, joined by a new
+ * corner. The first part keeps the wall's id, both keep its thickness,
+ * height and textures, and each opening moves to the part holding its
+ * centre. A point at either end returns that end's corner unchanged.
+ */
+export function splitWallAt(
+  floorplan: FloorplanData,
+  wallId: string,
+  point: Point2D
+): { floorplan: FloorplanData; cornerId: string } | null {
+  const wall = floorplan.walls[wallId];
+  const start = wall && floorplan.corners[wall.startCorner];
+  const end = wall && floorplan.corners[wall.endCorner];
+  if (!wall || !start || !end) return null;
+
+  const length = MathUtils.distance(start, end);
+  const { point: splitPoint, t } = MathUtils.projectOntoSegment(point, start, end);
+  const along = t * length;
+  if (along < SPLIT_END_TOLERANCE) return { floorplan, cornerId: start.id };
+  if (along > length - SPLIT_END_TOLERANCE) return { floorplan, cornerId: end.id };
+
+  const corner: Corner = { id: generateId(), x: splitPoint.x, y: splitPoint.y, adjacentWalls: [wall.id] };
+  const second: Wall = { ...wall, id: generateId(), startCorner: corner.id };
+
+  const openings = { ...floorplan.openings };
+  Object.values(openings).forEach(opening => {
+    if (opening.wallId !== wall.id || opening.offset + opening.width / 2 < along) return;
+    openings[opening.id] = { ...opening, wallId: second.id, offset: Math.max(0, opening.offset - along) };
+  });
+  const items = { ...floorplan.items };
+  Object.values(items).forEach(item => {
+    const { attachment } = item;
+    if (attachment?.wallId !== wall.id || attachment.offset < along) return;
+    items[item.id] = { ...item, attachment: { ...attachment, wallId: second.id, offset: attachment.offset - along } };
+  });
+
+  return {
+    cornerId: corner.id,
+    floorplan: linkWall({
+      ...floorplan,
+      walls: { ...floorplan.walls, [wall.id]: { ...wall, endCorner: corner.id } },
+      corners: {
+        ...floorplan.corners,
+        [corner.id]: corner,
+        [end.id]: { ...end, adjacentWalls: end.adjacentWalls.filter(id => id !== wall.id) },
+      },
+      openings,
+      items,
+    }, second),
+  };
+}
+
+/**
+ * Add a wall, first splitting every wall it crosses so each crossing gets a
+ * shared corner, then adding the wall as a chain through those corners
+ */
+export function addWallSplittingCrossings(floorplan: FloorplanData, wall: Wall): FloorplanData {
+  const start = floorplan.corners[wall.startCorner];
+  const end = floorplan.corners[wall.endCorner];
+  if (!start || !end) return linkWall(floorplan, wall);
+  const length = MathUtils.distance(start, end);
+
+  // Find crossings along the new wall, ignoring walls that share its corners
+  const crossings: { t: number; wallId: string; point: Point2D }[] = [];
+  Object.values(floorplan.walls).forEach(other => {
+    if ([other.startCorner, other.endCorner].some(id => id === start.id || id === end.id)) return;
+    const otherStart = floorplan.corners[other.startCorner];
+    const otherEnd = floorplan.corners[other.endCorner];
+    if (!otherStart || !otherEnd) return;
+    const crossing = MathUtils.segmentIntersection(start, end, otherStart, otherEnd);
+    if (!crossing) return;
+    const along = crossing.t * length;
+    if (along < SPLIT_END_TOLERANCE || along > length - SPLIT_END_TOLERANCE) return;
+    crossings.push({ t: crossing.t, wallId: other.id, point: crossing.point });
+  });
+  crossings.sort((a, b) => a.t - b.t);
+
+  let result = floorplan;
+  const path = [start.id];
+  crossings.forEach(({ wallId, point }) => {
+    const split = splitWallAt(result, wallId, point);
+    if (!split) return;
+    result = split.floorplan;
+    // Several walls can cross at one of their shared corners
+    if (path[path.length - 1] !== split.cornerId) path.push(split.cornerId);
+  });
+  if (path[path.length - 1] !== end.id) path.push(end.id);
+
+  const existing = new Set(Object.values(result.walls).map(w => [w.startCorner, w.endCorner].sort().join('|')));
+  for (let i = 0; i + 1 < path.length; i++) {
+    const key = [path[i], path[i + 1]].sort().join('|');
+    if (existing.has(key)) continue;
+    existing.add(key);
+    result = linkWall(result, {
+      ...wall,
+      id: i === 0 ? wall.id : generateId(),
+      startCorner: path[i],
+      endCorner: path[i + 1],
+    });
+  }
+  return result;
+}
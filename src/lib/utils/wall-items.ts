@@ -0,0 +1,106 @@
+import { FloorplanData, Item3D, Point2D, Point3D, Wall, WallAttachment } from '@/types';
+import { MathUtils } from './math';
+import { getItemSize } from './items';
+
+/**
+ * Items against walls, the way blueprint3d's wall items behave. An item's
+ * attachment says which face of which wall its back is against and how far
+ * along; its plan position and rotation follow from that and the wall, so
+ * it stays on the wall when the wall moves. Its height is left alone, which
+ * keeps a wall-mounted item at its elevation.
+ */
+
+type PlacedItem = Pick<Item3D, 'position' | 'rotation' | 'scale' | 'dimensions'>;
+
+// A wall's ends, length, unit direction and front normal; front is the side
+// Opening.swing calls front
+const getWallFrame = (wallId: string, floorplan: FloorplanData) => {
+  const wall = floorplan.walls[wallId];
+  const start = wall && floorplan.corners[wall.startCorner];
+  const end = wall && floorplan.corners[wall.endCorner];
+  if (!wall || !start || !end) return null;
+  const length = MathUtils.distance(start, end);
+  if (length === 0) return null;
+  const ux = (end.x - start.x) / length;
+  const uy = (end.y - start.y) / length;
+  return { wall, start, length, ux, uy, nx: -uy, ny: ux };
+};
+
+/**
+ * Get where an attached item goes: centred at its offset along the wall, or
+ * as near as fits, its back on the wall's face and its front facing out.
+ * Null if the wall is gone.
+ */
+export function getAttachedPlacement(
+  item: PlacedItem,
+  attachment: WallAttachment,
+  floorplan: FloorplanData
+): { position: Point3D; rotation: Point3D } | null {
+  const frame = getWallFrame(attachment.wallId, floorplan);
+  if (!frame) return null;
+  const { wall, start, length, ux, uy, nx, ny } = frame;
+  const { width, depth } = getItemSize(item);
+
+  const half = Math.min(width, length) / 2;
+  const along = Math.min(Math.max(attachment.offset, half), length - half);
+  const sign = attachment.side === 'front' ? 1 : -1;
+  const out = wall.thickness / 2 + depth / 2;
+  // The item's front (+z) turned by rotation.y lies along (sin, cos) on the
+  // plan; face it along the wall's normal on its side
+  return {
+    position: {
+      x: start.x + ux * along + sign * nx * out,
+      y: item.position.y,
+      z: start.y + uy * along + sign * ny * out,
+    },
+    rotation: { ...item.rotation, y: Math.atan2(sign * nx, sign * ny) },
+  };
+}
+
+/**
+ * Find the wall face nearest an item centred at a point, if its back would
+ * be within `maxGap` cm of the face, and where along the wall it would go.
+ * Only `walls` are tried, e.g. those a spatial index finds near the point.
+ */
+export function findWallAttachment(
+  item: PlacedItem,
+  point: Point2D,
+  floorplan: FloorplanData,
+  maxGap: number,
+  walls: Wall[] = Object.values(floorplan.walls)
+): WallAttachment | null {
+  const { depth } = getItemSize(item);
+  let best: WallAttachment | null = null;
+  let bestGap = Infinity;
+  for (const wall of walls) {
+    const frame = getWallFrame(wall.id, floorplan);
+    if (!frame) continue;
+    const { start, length, ux, uy, nx, ny } = frame;
+    const along = (point.x - start.x) * ux + (point.y - start.y) * uy;
+    if (along < 0 || along > length) continue;
+    const across = (point.x - start.x) * nx + (point.y - start.y) * ny;
+    // How far the item's back would be from the face, in front of it or
+    // sunk into the wall
+    const gap = Math.abs(Math.abs(across) - wall.thickness / 2 - depth / 2);
+    if (gap > maxGap || gap >= bestGap) continue;
+    best = { wallId: wall.id, side: across >= 0 ? 'front' : 'back', offset: along };
+    bestGap = gap;
+  }
+  return best;
+}
+
+/**
+ * Put an item centred near a point against the nearest wall within
+ * `maxGap`; null if there is none
+ */
+export function attachToNearestWall<T extends PlacedItem & Pick<Item3D, 'attachment'>>(
+  item: T,
+  point: Point2D,
+  floorplan: FloorplanData,
+  maxGap: number,
+  walls?: Wall[]
+): T | null {
+  const attachment = findWallAttachment(item, point, floorplan, maxGap, walls);
+  const placement = attachment && getAttachedPlacement(item, attachment, floorplan);
+  return attachment && placement ? { ...item, ...placement, attachment } : null;
+}
@@ -1,105 +1,598 @@
 import { create } from 'zustand';
-import { FloorplanData, EditorMode, ViewMode, Corner, Wall, Room, Item3D, AppConfig } from '@/types';
+import { FloorplanData, EditorMode, ViewMode, Corner, Wall, Room, Item3D, AppConfig, Opening, Point2D, ProjectMetadata, Selection, SnapSettings, WallAttachment } from '@/types';
+import { GeometryUtils, MathUtils } from '@/lib/utils/math';
+import { DEFAULT_CONFIG, DEFAULT_SNAP_SETTINGS } from '@/lib/config';
+import { createProjectMetadata, parseProject, serializeProject, validateConfig, ValidationIssue } from '@/lib/project';
+import { loadUserConfig, saveUserConfig } from '@/lib/user-config';
+import { findRoomAt, getRoomOutline } from '@/lib/utils/rooms';
+import { getAttachedPlacement } from '@/lib/utils/wall-items';
+import { addWallSplittingCrossings, linkWall, splitWallAt } from '@/lib/utils/wall-graph';
+
+// A point in the undo/redo history
+interface HistorySnapshot {
+  floorplan: FloorplanData;
+  config: AppConfig;
+}
+
+interface HistoryState {
+  past: HistorySnapshot[];
+  future: HistorySnapshot[];
+  // Snapshot taken when the outermost open transaction began
+  transaction: HistorySnapshot | null;
+  transactionDepth: number;
+}
+
+// Copied entities with their original ids, and how often they were pasted
+interface Clipboard {
+  floorplan: FloorplanData;
+  pastes: number;
+}
 
 interface FloorplanStore {
   // State
   floorplan: FloorplanData;
+  history: HistoryState;
   editorMode: EditorMode;
   viewMode: ViewMode;
-  selectedItems: string[];
+  // Catalog entry that clicks place in PLACE_ITEM mode
+  placingEntryId: string | null;
+  selection: Selection;
+  clipboard: Clipboard | null;
   activeCorner: Corner | null;
   activeWall: Wall | null;
   config: AppConfig;
-
-  // Computed getters
-  corners: Corner[];
-  walls: Wall[];
-  rooms: Room[];
-  items: Item3D[];
+  snapSettings: SnapSettings;
+  metadata: ProjectMetadata;
 
   // Actions
   setEditorMode: (mode: EditorMode) => void;
+  // Choose a catalog entry to place and switch to PLACE_ITEM mode, or with
+  // null go back to MOVE mode
+  setPlacingEntry: (entryId: string | null) => void;
   setViewMode: (mode: ViewMode) => void;
+  setSnapSettings: (changes: Partial<SnapSettings>) => void;
+  // Apply and remember settings the user edited; invalid changes are not
+  // applied, and the problems are returned
+  setConfig: (changes: Partial<AppConfig>) => ValidationIssue[];
+  // Switch to the user's saved default settings
+  restoreUserConfig: () => void;
   
   // Corner operations
   addCorner: (corner: Corner) => void;
   moveCorner: (id: string, x: number, y: number) => void;
   removeCorner: (id: string) => void;
+  // Merge one corner into another, rewiring its walls to the target
+  mergeCorners: (sourceId: string, targetId: string) => void;
   setActiveCorner: (corner: Corner | null) => void;
   
   // Wall operations
   addWall: (wall: Wall) => void;
+  // Add a drawn wall, splitting it and every wall it crosses at the crossings
+  addDrawnWall: (wall: Wall) => void;
+  // Split a wall at the point on it nearest to `point`; returns the id of the
+  // corner joining the two parts
+  splitWall: (id: string, point: Point2D) => string | null;
   removeWall: (id: string) => void;
+  moveWall: (id: string, deltaX: number, deltaY: number) => void;
+  // Set thickness, height or finishes on several walls at once
+  updateWalls: (ids: string[], changes: Partial<Omit<Wall, 'id' | 'startCorner' | 'endCorner'>>) => void;
+  // Resize walls by moving each one's end corner along the wall
+  setWallLength: (ids: string[], length: number) => void;
   setActiveWall: (wall: Wall | null) => void;
   
+  // Opening operations
+  addOpening: (opening: Omit<Opening, 'id'>) => string;
+  updateOpening: (id: string, changes: Partial<Omit<Opening, 'id'>>) => void;
+  removeOpening: (id: string) => void;
+
   // Room operations
   updateRooms: () => void;
+  // Change a room's name, type, floor finish or ceiling height
+  updateRoom: (id: string, changes: Partial<Omit<Room, 'id' | 'corners'>>) => void;
   
-  // Item operations
+  // Item operations. Moving or turning an item by hand takes it off its wall.
   addItem: (item: Omit<Item3D, 'id'>) => string;
   moveItem: (id: string, position: { x: number; y: number; z: number }) => void;
   rotateItem: (id: string, rotation: { x: number; y: number; z: number }) => void;
+  // Put an item's back against a wall, where the attachment says
+  attachItem: (id: string, attachment: WallAttachment) => void;
   scaleItem: (id: string, scale: { x: number; y: number; z: number }) => void;
   removeItem: (id: string) => void;
   
   // Selection
-  selectItem: (id: string) => void;
-  deselectItem: (id: string) => void;
+  setSelection: (selection: Partial<Selection>) => void;
+  addToSelection: (selection: Partial<Selection>) => void;
   clearSelection: () => void;
+  // Move the selected corners, the corners of selected walls and rooms, and
+  // selected items by a delta
+  moveSelection: (deltaX: number, deltaY: number) => void;
+  removeSelection: () => void;
+  copySelection: () => void;
+  // Paste the clipboard, offset further with each paste and snapped to the
+  // grid, and select the copy
+  paste: () => void;
+  duplicateSelection: () => void;
   
+  // History
+  undo: () => void;
+  redo: () => void;
+  beginTransaction: () => void;
+  commitTransaction: () => void;
+
   // Persistence
   saveFloorplan: () => string;
+  // Throws a ProjectFileError listing every problem if the file is invalid
   loadFloorplan: (data: string) => void;
+  // Start a new project from a floorplan converted from another format
+  importFloorplan: (floorplan: FloorplanData, name?: string) => void;
   reset: () => void;
 }
 
 const generateId = () => `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 
-const defaultConfig: AppConfig = {
-  wallHeight: 250,
-  wallThickness: 10,
-  gridSize: 20,
-  snapTolerance: 15,
+// Rooms are identified by their set of corners, independent of start corner
+// and winding, so an edit that keeps a room's outline keeps its id and name
+const roomKey = (cornerIds: string[]) => [...cornerIds].sort().join('|');
+
+/**
+ * Re-detect rooms from the corner/wall graph, keeping the properties the
+ * user gave them, and keep the items attached to walls on them.
+ *
+ * A room with the same outline as before keeps its id and everything else.
+ * An outline the edit changed (a split wall adds a corner to it, a new wall
+ * divides it, a removed one joins two rooms) takes over the old room it lies
+ * in: the largest such outline keeps the old room's id and name, and the
+ * others get a new id and name but its type and finishes.
+ */
+const detectRooms = (floorplan: FloorplanData): FloorplanData => {
+  const previous = new Map<string, Room>();
+  Object.values(floorplan.rooms).forEach(room => previous.set(roomKey(room.corners), room));
+  const previousOutlines = Object.values(floorplan.rooms).map(room => {
+    const outline = getRoomOutline(room, floorplan.corners);
+    return { room, outline, area: GeometryUtils.polygonArea(outline) };
+  });
+
+  const usedNames = new Set(Object.values(floorplan.rooms).map(room => room.name));
+  let nameIndex = 1;
+  const nextName = () => {
+    while (usedNames.has(`Room ${nameIndex}`)) nameIndex++;
+    usedNames.add(`Room ${nameIndex}`);
+    return `Room ${nameIndex}`;
+  };
+
+  const rooms: Record<string, Room> = {};
+  const changed: { cornerIds: string[]; outline: Point2D[]; area: number }[] = [];
+  GeometryUtils.findRooms(floorplan.corners, floorplan.walls).forEach(cornerIds => {
+    const existing = previous.get(roomKey(cornerIds));
+    if (existing) {
+      rooms[existing.id] = { ...existing, corners: cornerIds };
+      return;
+    }
+    const outline = getRoomOutline({ id: '', corners: cornerIds }, floorplan.corners);
+    changed.push({ cornerIds, outline, area: GeometryUtils.polygonArea(outline) });
+  });
+
+  changed.sort((a, b) => b.area - a.area).forEach(({ cornerIds, outline }) => {
+    // The innermost old room holding a point inside the new outline
+    const inside = GeometryUtils.poleOfInaccessibility(outline);
+    const source = previousOutlines
+      .filter(({ outline: old }) => MathUtils.pointInPolygon(inside, old))
+      .sort((a, b) => a.area - b.area)[0]?.room;
+    const room: Room = !source
+      ? { id: generateId(), corners: cornerIds, name: nextName() }
+      : rooms[source.id]
+        ? { ...source, id: generateId(), corners: cornerIds, name: nextName() }
+        : { ...source, corners: cornerIds };
+    rooms[room.id] = room;
+  });
+
+  // Items in a room that no longer exists go to the room they're now in
+  const homeless = Object.values(floorplan.items)
+    .filter(item => item.roomId && !rooms[item.roomId])
+    .map(item => item.id);
+
+  return followWalls(assignItemRooms({ ...floorplan, rooms }, homeless));
+};
+
+/**
+ * Move each item attached to a wall to where the wall now puts it. Items
+ * whose wall is gone stay where they are, unattached.
+ */
+const followWalls = (floorplan: FloorplanData): FloorplanData => {
+  let items = floorplan.items;
+  const moved: string[] = [];
+  Object.values(floorplan.items).forEach(item => {
+    if (!item.attachment) return;
+    const placement = getAttachedPlacement(item, item.attachment, floorplan);
+    if (placement && MathUtils.pointsEqual(
+      { x: placement.position.x, y: placement.position.z },
+      { x: item.position.x, y: item.position.z },
+      0.01
+    ) && placement.rotation.y === item.rotation.y) return;
+    if (items === floorplan.items) items = { ...floorplan.items };
+    items[item.id] = placement ? { ...item, ...placement } : { ...item, attachment: undefined };
+    moved.push(item.id);
+  });
+  return items === floorplan.items ? floorplan : assignItemRooms({ ...floorplan, items }, moved);
+};
+
+/**
+ * Put each of the given items in the room its centre is now in, after they
+ * moved
+ */
+const assignItemRooms = (floorplan: FloorplanData, itemIds: string[]): FloorplanData => {
+  let items = floorplan.items;
+  itemIds.forEach(id => {
+    const item = floorplan.items[id];
+    if (!item) return;
+    const roomId = findRoomAt(floorplan, { x: item.position.x, y: item.position.z })?.id;
+    if (item.roomId === roomId) return;
+    if (items === floorplan.items) items = { ...floorplan.items };
+    items[id] = { ...item, roomId };
+  });
+  return items === floorplan.items ? floorplan : { ...floorplan, items };
+};
+
+const MAX_HISTORY = 100;
+
+const emptyHistory: HistoryState = {
+  past: [],
+  future: [],
+  transaction: null,
+  transactionDepth: 0,
+};
+
+const snapshot = (state: FloorplanStore): HistorySnapshot => ({
+  floorplan: state.floorplan,
+  config: state.config,
+});
+
+/**
+ * Record the state before a mutation as an undo step. Inside a transaction
+ * the step is recorded once, when the transaction is committed.
+ */
+const withHistory = (state: FloorplanStore): Pick<FloorplanStore, 'history'> => {
+  if (state.history.transaction) return { history: state.history };
+  return {
+    history: {
+      ...state.history,
+      past: [...state.history.past, snapshot(state)].slice(-MAX_HISTORY),
+      future: [],
+    },
+  };
+};
+
+// Drop the openings hosted by walls that no longer exist
+const withoutOrphanOpenings = (
+  openings: Record<string, Opening>,
+  walls: Record<string, Wall>
+): Record<string, Opening> => {
+  const remaining: Record<string, Opening> = {};
+  Object.values(openings).forEach(opening => {
+    if (walls[opening.wallId]) remaining[opening.id] = opening;
+  });
+  return remaining;
+};
+
+/**
+ * Merge the source corner into the target: the source's walls are rewired
+ * to the target, walls that collapse to zero length are removed, and walls
+ * that now duplicate another hand their openings to it and are removed.
+ */
+const mergeCornersInto = (floorplan: FloorplanData, sourceId: string, targetId: string): FloorplanData => {
+  const source = floorplan.corners[sourceId];
+  const target = floorplan.corners[targetId];
+  if (!source || !target || sourceId === targetId) return floorplan;
+
+  const walls = { ...floorplan.walls };
+  const corners = { ...floorplan.corners };
+  const openings = { ...floorplan.openings };
+  const unlink = (cornerId: string, wallId: string) => {
+    const corner = corners[cornerId];
+    if (corner) corners[cornerId] = { ...corner, adjacentWalls: corner.adjacentWalls.filter(id => id !== wallId) };
+  };
+  const pairKey = (wall: Wall) => [wall.startCorner, wall.endCorner].sort().join('|');
+  const targetWalls = new Map(
+    target.adjacentWalls.filter(id => walls[id]).map(id => [pairKey(walls[id]), walls[id]])
+  );
+
+  const adjacentWalls = [...target.adjacentWalls];
+  source.adjacentWalls.forEach(wallId => {
+    const wall = walls[wallId];
+    if (!wall) return;
+    const rewired: Wall = {
+      ...wall,
+      startCorner: wall.startCorner === sourceId ? targetId : wall.startCorner,
+      endCorner: wall.endCorner === sourceId ? targetId : wall.endCorner,
+    };
+
+    if (rewired.startCorner === rewired.endCorner) {
+      delete walls[wallId];
+      return;
+    }
+
+    const twin = targetWalls.get(pairKey(rewired));
+    if (twin) {
+      // Keep the existing wall; openings measured from the other end flip
+      const start = corners[twin.startCorner];
+      const end = corners[twin.endCorner];
+      const length = start && end ? MathUtils.distance(start, end) : 0;
+      Object.values(openings).forEach(opening => {
+        if (opening.wallId !== wallId) return;
+        const offset = twin.startCorner === rewired.startCorner ? opening.offset : length - opening.offset - opening.width;
+        openings[opening.id] = { ...opening, wallId: twin.id, offset: Math.max(0, offset) };
+      });
+      delete walls[wallId];
+      unlink(rewired.startCorner === targetId ? rewired.endCorner : rewired.startCorner, wallId);
+      return;
+    }
+
+    walls[wallId] = rewired;
+    targetWalls.set(pairKey(rewired), rewired);
+    adjacentWalls.push(wallId);
+  });
+
+  delete corners[sourceId];
+  corners[targetId] = { ...target, adjacentWalls: adjacentWalls.filter(id => walls[id]) };
+  return {
+    ...floorplan,
+    corners,
+    walls,
+    openings: withoutOrphanOpenings(openings, walls),
+  };
+};
+
+const emptySelection: Selection = { corners: [], walls: [], rooms: [], items: [] };
+
+// How far each paste is offset from the copied entities (cm)
+const PASTE_OFFSET = 50;
+
+// Drop ids that no longer refer to anything in the floorplan
+const pruneSelection = (selection: Selection, floorplan: FloorplanData): Selection => ({
+  corners: selection.corners.filter(id => floorplan.corners[id]),
+  walls: selection.walls.filter(id => floorplan.walls[id]),
+  rooms: selection.rooms.filter(id => floorplan.rooms[id]),
+  items: selection.items.filter(id => floorplan.items[id]),
+});
+
+const mergeSelections = (a: Selection, b: Partial<Selection>): Selection => ({
+  corners: Array.from(new Set([...a.corners, ...(b.corners ?? [])])),
+  walls: Array.from(new Set([...a.walls, ...(b.walls ?? [])])),
+  rooms: Array.from(new Set([...a.rooms, ...(b.rooms ?? [])])),
+  items: Array.from(new Set([...a.items, ...(b.items ?? [])])),
+});
+
+// The walls along a room's outline
+const getRoomWallIds = (floorplan: FloorplanData, room: Room): string[] =>
+  room.corners.flatMap((cornerId, index) => {
+    const nextId = room.corners[(index + 1) % room.corners.length];
+    const wallId = floorplan.corners[cornerId]?.adjacentWalls.find(id => {
+      const wall = floorplan.walls[id];
+      return wall && (wall.startCorner === nextId || wall.endCorner === nextId);
+    });
+    return wallId ? [wallId] : [];
+  });
+
+/**
+ * The walls and corners a selection covers: the selected walls and the
+ * outlines of selected rooms, with their corners and the selected corners
+ */
+const getSelectedGeometry = (floorplan: FloorplanData, selection: Selection) => {
+  const wallIds = new Set(selection.walls.filter(id => floorplan.walls[id]));
+  selection.rooms.forEach(id => {
+    const room = floorplan.rooms[id];
+    if (room) getRoomWallIds(floorplan, room).forEach(wallId => wallIds.add(wallId));
+  });
+  const cornerIds = new Set(selection.corners.filter(id => floorplan.corners[id]));
+  wallIds.forEach(id => {
+    const wall = floorplan.walls[id];
+    cornerIds.add(wall.startCorner);
+    cornerIds.add(wall.endCorner);
+  });
+  return { wallIds, cornerIds };
+};
+
+/**
+ * Copy the selected entities, with the corners and walls they need, into a
+ * standalone floorplan that keeps the original ids
+ */
+const copyFragment = (floorplan: FloorplanData, selection: Selection): FloorplanData => {
+  const { wallIds, cornerIds } = getSelectedGeometry(floorplan, selection);
+  const fragment: FloorplanData = { corners: {}, walls: {}, rooms: {}, openings: {}, items: {} };
+  cornerIds.forEach(id => {
+    const corner = floorplan.corners[id];
+    if (corner) fragment.corners[id] = { ...corner, adjacentWalls: corner.adjacentWalls.filter(wallId => wallIds.has(wallId)) };
+  });
+  wallIds.forEach(id => {
+    fragment.walls[id] = floorplan.walls[id];
+  });
+  Object.values(floorplan.openings).forEach(opening => {
+    if (wallIds.has(opening.wallId)) fragment.openings[opening.id] = opening;
+  });
+  selection.rooms.forEach(id => {
+    const room = floorplan.rooms[id];
+    if (room) fragment.rooms[id] = room;
+  });
+  selection.items.forEach(id => {
+    const item = floorplan.items[id];
+    if (!item) return;
+    fragment.items[id] = {
+      ...item,
+      roomId: item.roomId && fragment.rooms[item.roomId] ? item.roomId : undefined,
+      attachment: item.attachment && fragment.walls[item.attachment.wallId] ? item.attachment : undefined,
+    };
+  });
+  return fragment;
+};
+
+/**
+ * Add a copied fragment to a floorplan under fresh ids, moved by a delta.
+ * References between the copied entities are remapped to the new ids, and
+ * copied rooms are kept so their names and finishes survive re-detection.
+ */
+const pasteFragment = (
+  floorplan: FloorplanData,
+  fragment: FloorplanData,
+  delta: Point2D
+): { floorplan: FloorplanData; selection: Selection } => {
+  const ids = new Map<string, string>();
+  const newId = (id: string) => {
+    if (!ids.has(id)) ids.set(id, generateId());
+    return ids.get(id)!;
+  };
+
+  const corners = { ...floorplan.corners };
+  Object.values(fragment.corners).forEach(corner => {
+    const id = newId(corner.id);
+    corners[id] = { id, x: corner.x + delta.x, y: corner.y + delta.y, adjacentWalls: corner.adjacentWalls.map(newId) };
+  });
+  const walls = { ...floorplan.walls };
+  Object.values(fragment.walls).forEach(wall => {
+    const id = newId(wall.id);
+    walls[id] = { ...wall, id, startCorner: newId(wall.startCorner), endCorner: newId(wall.endCorner) };
+  });
+  const openings = { ...floorplan.openings };
+  Object.values(fragment.openings).forEach(opening => {
+    const id = newId(opening.id);
+    openings[id] = { ...opening, id, wallId: newId(opening.wallId) };
+  });
+  const rooms = { ...floorplan.rooms };
+  Object.values(fragment.rooms).forEach(room => {
+    const id = newId(room.id);
+    rooms[id] = { ...room, id, corners: room.corners.map(newId) };
+  });
+  const items = { ...floorplan.items };
+  Object.values(fragment.items).forEach(item => {
+    const id = newId(item.id);
+    items[id] = {
+      ...item,
+      id,
+      position: { ...item.position, x: item.position.x + delta.x, z: item.position.z + delta.y },
+      roomId: item.roomId && newId(item.roomId),
+      attachment: item.attachment && { ...item.attachment, wallId: newId(item.attachment.wallId) },
+    };
+  });
+
+  const pasted = detectRooms({ ...floorplan, corners, walls, openings, rooms, items });
+  const selection = pruneSelection({
+    corners: Object.keys(fragment.corners).map(newId),
+    walls: Object.keys(fragment.walls).map(newId),
+    rooms: Object.keys(fragment.rooms).map(newId),
+    items: Object.keys(fragment.items).map(newId),
+  }, pasted);
+  return { floorplan: pasted, selection };
+};
+
+/**
+ * The delta that moves a fragment `distance` down and right, snapped so its
+ * top-left point lands on the grid
+ */
+const getPasteDelta = (fragment: FloorplanData, distance: number, gridSize: number): Point2D => {
+  const box = GeometryUtils.boundingBox([
+    ...Object.values(fragment.corners),
+    ...Object.values(fragment.items).map(item => ({ x: item.position.x, y: item.position.z })),
+  ]);
+  if (!box) return { x: distance, y: distance };
+  const target = MathUtils.snapToGrid({ x: box.minX + distance, y: box.minY + distance }, gridSize);
+  return { x: target.x - box.minX, y: target.y - box.minY };
+};
+
+/**
+ * Remove the selected entities. Selected corners take their walls with
+ * them; a selected room takes the outline walls it shares with no other
+ * room. Corners left without walls by the removal go too.
+ */
+const removeSelected = (floorplan: FloorplanData, selection: Selection): FloorplanData => {
+  const wallIds = new Set(selection.walls.filter(id => floorplan.walls[id]));
+  const keptRooms = Object.values(floorplan.rooms).filter(room => !selection.rooms.includes(room.id));
+  const sharedWallIds = new Set(keptRooms.flatMap(room => getRoomWallIds(floorplan, room)));
+  selection.rooms.forEach(id => {
+    const room = floorplan.rooms[id];
+    if (!room) return;
+    getRoomWallIds(floorplan, room).forEach(wallId => {
+      if (!sharedWallIds.has(wallId)) wallIds.add(wallId);
+    });
+  });
+  const cornerIds = new Set(selection.corners.filter(id => floorplan.corners[id]));
+  cornerIds.forEach(id => floorplan.corners[id].adjacentWalls.forEach(wallId => wallIds.add(wallId)));
+
+  const walls = { ...floorplan.walls };
+  const touched = new Set<string>();
+  wallIds.forEach(id => {
+    const wall = walls[id];
+    if (!wall) return;
+    touched.add(wall.startCorner);
+    touched.add(wall.endCorner);
+    delete walls[id];
+  });
+
+  const corners = { ...floorplan.corners };
+  cornerIds.forEach(id => delete corners[id]);
+  touched.forEach(id => {
+    const corner = corners[id];
+    if (!corner) return;
+    const adjacentWalls = corner.adjacentWalls.filter(wallId => walls[wallId]);
+    if (adjacentWalls.length === 0) delete corners[id];
+    else corners[id] = { ...corner, adjacentWalls };
+  });
+
+  const items = { ...floorplan.items };
+  selection.items.forEach(id => delete items[id]);
+
+  return detectRooms({
+    ...floorplan,
+    corners,
+    walls,
+    openings: withoutOrphanOpenings(floorplan.openings, walls),
+    items,
+  });
 };
 
 const initialFloorplan: FloorplanData = {
   corners: {},
   walls: {},
   rooms: {},
+  openings: {},
   items: {},
 };
 
 export const useFloorplanStore = create<FloorplanStore>((set, get) => ({
   // Initial state
   floorplan: initialFloorplan,
+  history: emptyHistory,
   editorMode: EditorMode.MOVE,
+  placingEntryId: null,
   viewMode: ViewMode.FLOORPLAN_2D,
-  selectedItems: [],
+  selection: emptySelection,
+  clipboard: null,
   activeCorner: null,
   activeWall: null,
-  config: defaultConfig,
-
-  // Computed getters
-  get corners() {
-    return Object.values(get().floorplan.corners);
-  },
-  get walls() {
-    return Object.values(get().floorplan.walls);
-  },
-  get rooms() {
-    return Object.values(get().floorplan.rooms);
-  },
-  get items() {
-    return Object.values(get().floorplan.items);
-  },
+  config: DEFAULT_CONFIG,
+  snapSettings: DEFAULT_SNAP_SETTINGS,
+  metadata: createProjectMetadata(),
 
   // Actions
   setEditorMode: (mode) => set({ editorMode: mode }),
+  setPlacingEntry: (entryId) => set({
+    placingEntryId: entryId,
+    editorMode: entryId ? EditorMode.PLACE_ITEM : EditorMode.MOVE,
+  }),
   setViewMode: (mode) => set({ viewMode: mode }),
+  setSnapSettings: (changes) => set((state) => ({ snapSettings: { ...state.snapSettings, ...changes } })),
+  setConfig: (changes) => {
+    const config = { ...get().config, ...changes };
+    const issues = validateConfig(config);
+    if (issues.length > 0) return issues;
+    set((state) => ({ ...withHistory(state), config }));
+    saveUserConfig(config);
+    return [];
+  },
+  restoreUserConfig: () => set({ config: loadUserConfig() }),
 
   // Corner operations
   addCorner: (corner) => {
     set((state) => ({
+      ...withHistory(state),
       floorplan: {
         ...state.floorplan,
         corners: {
@@ -112,7 +605,8 @@ export const useFloorplanStore = create<FloorplanStore>((set, get) => ({
 
   moveCorner: (id, x, y) => {
     set((state) => ({
-      floorplan: {
+      ...withHistory(state),
+      floorplan: detectRooms({
         ...state.floorplan,
         corners: {
           ...state.floorplan.corners,
@@ -122,7 +616,7 @@ export const useFloorplanStore = create<FloorplanStore>((set, get) => ({
             y,
           },
         },
-      },
+      }),
     }));
   },
 
@@ -133,50 +627,87 @@ export const useFloorplanStore = create<FloorplanStore>((set, get) => ({
 
       // Remove all walls connected to this corner
       const updatedWalls = { ...state.floorplan.walls };
+      const updatedCorners = { ...state.floorplan.corners };
       corner.adjacentWalls.forEach((wallId) => {
+        const wall = updatedWalls[wallId];
         delete updatedWalls[wallId];
-      });
+        if (!wall) return;
 
-      const updatedCorners = { ...state.floorplan.corners };
+        // Unlink the wall from the corner at its other end
+        const otherId = wall.startCorner === id ? wall.endCorner : wall.startCorner;
+        const other = updatedCorners[otherId];
+        if (other) {
+          updatedCorners[otherId] = {
+            ...other,
+            adjacentWalls: other.adjacentWalls.filter(adjacentId => adjacentId !== wallId),
+          };
+        }
+      });
       delete updatedCorners[id];
 
+      const floorplan = detectRooms({
+        ...state.floorplan,
+        corners: updatedCorners,
+        walls: updatedWalls,
+        openings: withoutOrphanOpenings(state.floorplan.openings, updatedWalls),
+      });
       return {
-        floorplan: {
-          ...state.floorplan,
-          corners: updatedCorners,
-          walls: updatedWalls,
-        },
+        ...withHistory(state),
+        floorplan,
+        selection: pruneSelection(state.selection, floorplan),
         activeCorner: state.activeCorner?.id === id ? null : state.activeCorner,
       };
     });
   },
 
+  mergeCorners: (sourceId, targetId) => {
+    set((state) => {
+      const floorplan = mergeCornersInto(state.floorplan, sourceId, targetId);
+      if (floorplan === state.floorplan) return state;
+
+      const merged = detectRooms(floorplan);
+      return {
+        ...withHistory(state),
+        floorplan: merged,
+        selection: pruneSelection(state.selection, merged),
+        activeCorner: state.activeCorner?.id === sourceId ? null : state.activeCorner,
+        activeWall: state.activeWall && !floorplan.walls[state.activeWall.id] ? null : state.activeWall,
+      };
+    });
+  },
+
   setActiveCorner: (corner) => set({ activeCorner: corner }),
 
   // Wall operations
   addWall: (wall) => {
     set((state) => ({
-      floorplan: {
-        ...state.floorplan,
-        walls: {
-          ...state.floorplan.walls,
-          [wall.id]: wall,
-        },
-        corners: {
-          ...state.floorplan.corners,
-          [wall.startCorner]: {
-            ...state.floorplan.corners[wall.startCorner],
-            adjacentWalls: [...(state.floorplan.corners[wall.startCorner]?.adjacentWalls || []), wall.id],
-          },
-          [wall.endCorner]: {
-            ...state.floorplan.corners[wall.endCorner],
-            adjacentWalls: [...(state.floorplan.corners[wall.endCorner]?.adjacentWalls || []), wall.id],
-          },
-        },
-      },
+      ...withHistory(state),
+      floorplan: detectRooms(linkWall(state.floorplan, wall)),
     }));
   },
 
+  addDrawnWall: (wall) => {
+    set((state) => ({
+      ...withHistory(state),
+      floorplan: detectRooms(addWallSplittingCrossings(state.floorplan, wall)),
+    }));
+  },
+
+  splitWall: (id, point) => {
+    let cornerId: string | null = null;
+    set((state) => {
+      const split = splitWallAt(state.floorplan, id, point);
+      if (!split) return state;
+      cornerId = split.cornerId;
+      if (split.floorplan === state.floorplan) return state;
+      return {
+        ...withHistory(state),
+        floorplan: detectRooms(split.floorplan),
+      };
+    });
+    return cornerId;
+  },
+
   removeWall: (id) => {
     set((state) => {
       const wall = state.floorplan.walls[id];
@@ -200,23 +731,172 @@ export const useFloorplanStore = create<FloorplanStore>((set, get) => ({
         };
       }
 
+      const floorplan = detectRooms({
+        ...state.floorplan,
+        corners: updatedCorners,
+        walls: updatedWalls,
+        openings: withoutOrphanOpenings(state.floorplan.openings, updatedWalls),
+      });
       return {
-        floorplan: {
+        ...withHistory(state),
+        floorplan,
+        selection: pruneSelection(state.selection, floorplan),
+        activeWall: state.activeWall?.id === id ? null : state.activeWall,
+      };
+    });
+  },
+
+  moveWall: (id, deltaX, deltaY) => {
+    set((state) => {
+      const wall = state.floorplan.walls[id];
+      if (!wall) return state;
+
+      // Move only the two corners of the wall by the delta
+      const updatedCorners = { ...state.floorplan.corners };
+      [wall.startCorner, wall.endCorner].forEach((cornerId) => {
+        const corner = updatedCorners[cornerId];
+        if (!corner) return;
+        updatedCorners[cornerId] = {
+          ...corner,
+          x: corner.x + deltaX,
+          y: corner.y + deltaY,
+        };
+      });
+
+      return {
+        ...withHistory(state),
+        floorplan: detectRooms({
           ...state.floorplan,
           corners: updatedCorners,
+        }),
+      };
+    });
+  },
+
+  updateWalls: (ids, changes) => {
+    set((state) => {
+      const updatedWalls = { ...state.floorplan.walls };
+      ids.forEach((id) => {
+        if (updatedWalls[id]) updatedWalls[id] = { ...updatedWalls[id], ...changes };
+      });
+
+      // A thicker or thinner wall moves the faces its items are against
+      return {
+        ...withHistory(state),
+        floorplan: followWalls({
+          ...state.floorplan,
           walls: updatedWalls,
-        },
-        activeWall: state.activeWall?.id === id ? null : state.activeWall,
+        }),
+      };
+    });
+  },
+
+  setWallLength: (ids, length) => {
+    if (length <= 0) return;
+    set((state) => {
+      // Walls are resized in turn, each keeping its direction, so in a chain
+      // each starts where the previous one now ends
+      const { corners } = state.floorplan;
+      const updatedCorners = { ...corners };
+      ids.forEach((id) => {
+        const wall = state.floorplan.walls[id];
+        const from = wall && corners[wall.startCorner];
+        const to = wall && corners[wall.endCorner];
+        const start = wall && updatedCorners[wall.startCorner];
+        if (!from || !to || !start) return;
+        const current = MathUtils.distance(from, to);
+        if (current === 0) return;
+        updatedCorners[to.id] = {
+          ...updatedCorners[to.id],
+          x: start.x + ((to.x - from.x) / current) * length,
+          y: start.y + ((to.y - from.y) / current) * length,
+        };
+      });
+
+      return {
+        ...withHistory(state),
+        floorplan: detectRooms({
+          ...state.floorplan,
+          corners: updatedCorners,
+        }),
       };
     });
   },
 
   setActiveWall: (wall) => set({ activeWall: wall }),
 
+  // Opening operations
+  addOpening: (opening) => {
+    const id = generateId();
+    set((state) => ({
+      ...withHistory(state),
+      floorplan: {
+        ...state.floorplan,
+        openings: {
+          ...state.floorplan.openings,
+          [id]: { ...opening, id },
+        },
+      },
+    }));
+    return id;
+  },
+
+  updateOpening: (id, changes) => {
+    set((state) => {
+      const opening = state.floorplan.openings[id];
+      if (!opening) return state;
+
+      return {
+        ...withHistory(state),
+        floorplan: {
+          ...state.floorplan,
+          openings: {
+            ...state.floorplan.openings,
+            [id]: { ...opening, ...changes },
+          },
+        },
+      };
+    });
+  },
+
+  removeOpening: (id) => {
+    set((state) => {
+      if (!state.floorplan.openings[id]) return state;
+
+      const updatedOpenings = { ...state.floorplan.openings };
+      delete updatedOpenings[id];
+
+      return {
+        ...withHistory(state),
+        floorplan: {
+          ...state.floorplan,
+          openings: updatedOpenings,
+        },
+      };
+    });
+  },
+
   // Room operations
   updateRooms: () => {
-    // TODO: Implement room detection algorithm
-    console.log('Room detection not implemented yet');
+    set((state) => ({ floorplan: detectRooms(state.floorplan) }));
+  },
+
+  updateRoom: (id, changes) => {
+    set((state) => {
+      const room = state.floorplan.rooms[id];
+      if (!room) return state;
+
+      return {
+        ...withHistory(state),
+        floorplan: {
+          ...state.floorplan,
+          rooms: {
+            ...state.floorplan.rooms,
+            [id]: { ...room, ...changes },
+          },
+        },
+      };
+    });
   },
 
   // Item operations
@@ -228,13 +908,14 @@ export const useFloorplanStore = create<FloorplanStore>((set, get) => ({
     };
 
     set((state) => ({
-      floorplan: {
+      ...withHistory(state),
+      floorplan: assignItemRooms({
         ...state.floorplan,
         items: {
           ...state.floorplan.items,
           [id]: newItem,
         },
-      },
+      }, [id]),
     }));
 
     return id;
@@ -242,21 +923,24 @@ export const useFloorplanStore = create<FloorplanStore>((set, get) => ({
 
   moveItem: (id, position) => {
     set((state) => ({
-      floorplan: {
+      ...withHistory(state),
+      floorplan: assignItemRooms({
         ...state.floorplan,
         items: {
           ...state.floorplan.items,
           [id]: {
             ...state.floorplan.items[id],
             position,
+            attachment: undefined,
           },
         },
-      },
+      }, [id]),
     }));
   },
 
   rotateItem: (id, rotation) => {
     set((state) => ({
+      ...withHistory(state),
       floorplan: {
         ...state.floorplan,
         items: {
@@ -264,14 +948,35 @@ export const useFloorplanStore = create<FloorplanStore>((set, get) => ({
           [id]: {
             ...state.floorplan.items[id],
             rotation,
+            attachment: undefined,
           },
         },
       },
     }));
   },
 
+  attachItem: (id, attachment) => {
+    set((state) => {
+      const item = state.floorplan.items[id];
+      const placement = item && getAttachedPlacement(item, attachment, state.floorplan);
+      if (!placement) return state;
+
+      return {
+        ...withHistory(state),
+        floorplan: assignItemRooms({
+          ...state.floorplan,
+          items: {
+            ...state.floorplan.items,
+            [id]: { ...item, ...placement, attachment },
+          },
+        }, [id]),
+      };
+    });
+  },
+
   scaleItem: (id, scale) => {
     set((state) => ({
+      ...withHistory(state),
       floorplan: {
         ...state.floorplan,
         items: {
@@ -291,49 +996,215 @@ export const useFloorplanStore = create<FloorplanStore>((set, get) => ({
       delete updatedItems[id];
 
       return {
+        ...withHistory(state),
         floorplan: {
           ...state.floorplan,
           items: updatedItems,
         },
-        selectedItems: state.selectedItems.filter(itemId => itemId !== id),
+        selection: { ...state.selection, items: state.selection.items.filter(itemId => itemId !== id) },
       };
     });
   },
 
   // Selection
-  selectItem: (id) => {
-    set((state) => ({
-      selectedItems: [...state.selectedItems, id],
-    }));
+  setSelection: (selection) => set({ selection: { ...emptySelection, ...selection } }),
+
+  addToSelection: (selection) => set((state) => ({ selection: mergeSelections(state.selection, selection) })),
+
+  clearSelection: () => set({ selection: emptySelection }),
+
+  moveSelection: (deltaX, deltaY) => {
+    set((state) => {
+      const { cornerIds } = getSelectedGeometry(state.floorplan, state.selection);
+      const itemIds = state.selection.items.filter(id => state.floorplan.items[id]);
+      if (cornerIds.size === 0 && itemIds.length === 0) return state;
+
+      const corners = { ...state.floorplan.corners };
+      cornerIds.forEach(id => {
+        corners[id] = { ...corners[id], x: corners[id].x + deltaX, y: corners[id].y + deltaY };
+      });
+      // Items keep their walls only if the walls move with them
+      const items = { ...state.floorplan.items };
+      itemIds.forEach(id => {
+        const { position, attachment } = items[id];
+        const wall = attachment && state.floorplan.walls[attachment.wallId];
+        items[id] = {
+          ...items[id],
+          position: { ...position, x: position.x + deltaX, z: position.z + deltaY },
+          attachment: wall && cornerIds.has(wall.startCorner) && cornerIds.has(wall.endCorner) ? attachment : undefined,
+        };
+      });
+
+      return {
+        ...withHistory(state),
+        floorplan: assignItemRooms(detectRooms({ ...state.floorplan, corners, items }), itemIds),
+      };
+    });
+  },
+
+  removeSelection: () => {
+    set((state) => {
+      const floorplan = removeSelected(state.floorplan, state.selection);
+      return {
+        ...withHistory(state),
+        floorplan,
+        selection: emptySelection,
+        activeCorner: state.activeCorner && !floorplan.corners[state.activeCorner.id] ? null : state.activeCorner,
+        activeWall: state.activeWall && !floorplan.walls[state.activeWall.id] ? null : state.activeWall,
+      };
+    });
+  },
+
+  copySelection: () => {
+    set((state) => {
+      const fragment = copyFragment(state.floorplan, state.selection);
+      const empty = Object.keys(fragment.corners).length === 0 && Object.keys(fragment.items).length === 0;
+      return empty ? state : { clipboard: { floorplan: fragment, pastes: 0 } };
+    });
+  },
+
+  paste: () => {
+    set((state) => {
+      if (!state.clipboard) return state;
+      const pastes = state.clipboard.pastes + 1;
+      const delta = getPasteDelta(state.clipboard.floorplan, PASTE_OFFSET * pastes, state.config.gridSize);
+      const { floorplan, selection } = pasteFragment(state.floorplan, state.clipboard.floorplan, delta);
+      return {
+        ...withHistory(state),
+        floorplan,
+        selection,
+        clipboard: { ...state.clipboard, pastes },
+      };
+    });
   },
 
-  deselectItem: (id) => {
+  duplicateSelection: () => {
+    set((state) => {
+      const fragment = copyFragment(state.floorplan, state.selection);
+      if (Object.keys(fragment.corners).length === 0 && Object.keys(fragment.items).length === 0) return state;
+      const delta = getPasteDelta(fragment, PASTE_OFFSET, state.config.gridSize);
+      const { floorplan, selection } = pasteFragment(state.floorplan, fragment, delta);
+      return {
+        ...withHistory(state),
+        floorplan,
+        selection,
+      };
+    });
+  },
+
+  // History
+  undo: () => {
+    set((state) => {
+      const { past, future, transaction } = state.history;
+      if (transaction || past.length === 0) return state;
+
+      const previous = past[past.length - 1];
+      return {
+        floorplan: previous.floorplan,
+        config: previous.config,
+        history: {
+          ...state.history,
+          past: past.slice(0, -1),
+          future: [snapshot(state), ...future],
+        },
+        activeCorner: null,
+        activeWall: null,
+        selection: pruneSelection(state.selection, previous.floorplan),
+      };
+    });
+  },
+
+  redo: () => {
+    set((state) => {
+      const { past, future, transaction } = state.history;
+      if (transaction || future.length === 0) return state;
+
+      const next = future[0];
+      return {
+        floorplan: next.floorplan,
+        config: next.config,
+        history: {
+          ...state.history,
+          past: [...past, snapshot(state)].slice(-MAX_HISTORY),
+          future: future.slice(1),
+        },
+        activeCorner: null,
+        activeWall: null,
+        selection: pruneSelection(state.selection, next.floorplan),
+      };
+    });
+  },
+
+  beginTransaction: () => {
     set((state) => ({
-      selectedItems: state.selectedItems.filter(itemId => itemId !== id),
+      history: {
+        ...state.history,
+        transaction: state.history.transaction ?? snapshot(state),
+        transactionDepth: state.history.transactionDepth + 1,
+      },
     }));
   },
 
-  clearSelection: () => set({ selectedItems: [] }),
+  commitTransaction: () => {
+    set((state) => {
+      const { transaction, transactionDepth } = state.history;
+      if (!transaction) return state;
+      if (transactionDepth > 1) {
+        return { history: { ...state.history, transactionDepth: transactionDepth - 1 } };
+      }
+
+      // Only record a step if something actually changed
+      const changed = transaction.floorplan !== state.floorplan || transaction.config !== state.config;
+      return {
+        history: {
+          past: changed ? [...state.history.past, transaction].slice(-MAX_HISTORY) : state.history.past,
+          future: changed ? [] : state.history.future,
+          transaction: null,
+          transactionDepth: 0,
+        },
+      };
+    });
+  },
 
   // Persistence
   saveFloorplan: () => {
-    const { floorplan } = get();
-    return JSON.stringify(floorplan);
+    const { floorplan, config, metadata } = get();
+    return serializeProject(floorplan, config, metadata);
   },
 
   loadFloorplan: (data) => {
-    try {
-      const floorplan = JSON.parse(data);
-      set({ floorplan });
-    } catch (error) {
-      console.error('Failed to load floorplan:', error);
-    }
+    const project = parseProject(data);
+    set({
+      floorplan: project.floorplan,
+      config: project.config,
+      metadata: project.metadata,
+      // Also drops any transaction a drag left open
+      history: emptyHistory,
+      selection: emptySelection,
+      activeCorner: null,
+      activeWall: null,
+    });
+  },
+
+  importFloorplan: (floorplan, name) => {
+    set({
+      floorplan,
+      metadata: createProjectMetadata(name),
+      // Also drops any transaction a drag left open
+      history: emptyHistory,
+      selection: emptySelection,
+      activeCorner: null,
+      activeWall: null,
+    });
   },
 
   reset: () => {
     set({
       floorplan: initialFloorplan,
-      selectedItems: [],
+      config: loadUserConfig(),
+      metadata: createProjectMetadata(),
+      history: emptyHistory,
+      selection: emptySelection,
       activeCorner: null,
       activeWall: null,
     });
@@ -28,11 +28,42 @@ export interface Wall {
   backTexture?: Texture;
 }
 
+// Openings (doors and windows) hosted by a wall
+export enum OpeningType {
+  DOOR = 'door',
+  WINDOW = 'window',
+}
+
+export interface Opening {
+  id: string;
+  wallId: string;
+  type: OpeningType;
+  offset: number; // cm from the wall's start corner to the opening's near edge
+  width: number;
+  height: number;
+  sillHeight: number; // cm above the floor, 0 for doors
+  hinge: 'start' | 'end'; // which jamb the leaf is hinged on
+  swing: 'front' | 'back'; // side the leaf opens to; front is the side the length label is drawn on
+}
+
+export enum RoomType {
+  LIVING_ROOM = 'living_room',
+  BEDROOM = 'bedroom',
+  KITCHEN = 'kitchen',
+  BATHROOM = 'bathroom',
+  DINING_ROOM = 'dining_room',
+  OFFICE = 'office',
+  HALLWAY = 'hallway',
+  STORAGE = 'storage',
+}
+
 export interface Room {
   id: string;
   corners: string[];
   floorTexture?: Texture;
   name?: string;
+  type?: RoomType; // sets the room's default colours in 2D and 3D
+  ceilingHeight?: number; // cm; defaults to the tallest wall around the room
 }
 
 export interface Texture {
@@ -45,19 +76,50 @@ export interface Texture {
 export interface Item3D {
   id: string;
   name: string;
-  modelUrl: string;
+  modelUrl: string; // empty when the item has no model and is shown as a box
+  // Centre of the item in cm, y up as in three.js: x and z are the plan's
+  // x and y, y is the height of the centre above the floor
   position: Point3D;
-  rotation: Point3D;
+  rotation: Point3D; // radians; y turns the item on the plan
   scale: Point3D;
+  dimensions?: ItemDimensions; // size of the model before scaling, when known
   roomId?: string;
+  attachment?: WallAttachment; // set while the item's back is against a wall
   metadata: ItemMetadata;
 }
 
+// Where an item's back is against a wall. The item's position and rotation
+// follow from it, so the item moves with the wall.
+export interface WallAttachment {
+  wallId: string;
+  side: 'front' | 'back'; // the wall face the item is on, as Opening.swing
+  offset: number; // cm along the wall from its start corner to the item's centre
+}
+
+// Item size in cm: width along its x axis, depth along z, height along y
+export interface ItemDimensions {
+  width: number;
+  depth: number;
+  height: number;
+}
+
 export interface ItemMetadata {
   itemName: string;
   itemType: string;
   resizable: boolean;
   category: string;
+  fixed?: boolean; // locked in place, as in blueprint3d
+  elevation?: number; // cm from the floor to the bottom of a wall-mounted item
+  clearance?: ItemClearance;
+}
+
+// Free space in cm an item needs around its footprint to be usable, such as
+// room to open a wardrobe's doors. Front is the item's +z side, left its -x.
+export interface ItemClearance {
+  front?: number;
+  back?: number;
+  left?: number;
+  right?: number;
 }
 
 // Floorplan state
@@ -65,15 +127,26 @@ export interface FloorplanData {
   corners: Record<string, Corner>;
   walls: Record<string, Wall>;
   rooms: Record<string, Room>;
+  openings: Record<string, Opening>;
   items: Record<string, Item3D>;
 }
 
+// Entities picked in the editor, by kind
+export interface Selection {
+  corners: string[];
+  walls: string[];
+  rooms: string[];
+  items: string[];
+}
+
 // Editor modes
 export enum EditorMode {
   MOVE = 'move',
   DRAW = 'draw',
   DELETE = 'delete',
   PLACE_ITEM = 'place_item',
+  PLACE_DOOR = 'place_door',
+  PLACE_WINDOW = 'place_window',
 }
 
 // View modes
@@ -89,4 +162,37 @@ export interface AppConfig {
   wallThickness: number;
   gridSize: number;
   snapTolerance: number;
+  units: LengthUnit; // how lengths are shown and what bare numbers mean
+  precision: number; // decimals, or for inches the finest fraction (see units.ts)
+}
+
+// Units lengths can be shown in: metric, decimal feet, feet and inches, or
+// inches with fractions
+export type LengthUnit = 'mm' | 'cm' | 'm' | 'ft' | 'ft-in' | 'in';
+
+// Snaps to points and lines of existing walls
+export type ObjectSnapKind = 'midpoint' | 'nearest' | 'extension' | 'perpendicular';
+
+// Drawing aids, a per-user preference rather than part of the project
+export interface SnapSettings {
+  angleStep: number; // degrees between snapped wall directions, 0 for off
+  alignmentGuides: boolean; // line up with other corners horizontally and vertically
+  grid: boolean;
+  walls: boolean; // put items near a wall back against it
+  objectSnaps: Record<ObjectSnapKind, boolean>;
+}
+
+// Project file
+export interface ProjectMetadata {
+  name: string;
+  createdAt: string; // ISO 8601
+  updatedAt: string; // ISO 8601
+}
+
+export interface ProjectFile {
+  format: 'home-3d';
+  version: number;
+  metadata: ProjectMetadata;
+  config: AppConfig;
+  floorplan: FloorplanData;
 }